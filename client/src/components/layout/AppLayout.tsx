@@ -1,13 +1,24 @@
 import React from 'react';
 import { Link } from 'wouter';
-import { FileText, User, SunMoon } from 'lucide-react';
+import { FileText, Library, User, SunMoon, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/use-auth';
 
 interface AppLayoutProps {
   children: React.ReactNode;
 }
 
 export default function AppLayout({ children }: AppLayoutProps) {
+  const { user, logoutMutation } = useAuth();
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header */}
@@ -19,6 +30,13 @@ export default function AppLayout({ children }: AppLayoutProps) {
           </Link>
           
           <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/library" className="flex items-center gap-2">
+                <Library className="w-5 h-5" />
+                <span className="sr-only md:not-sr-only">Library</span>
+              </Link>
+            </Button>
+
             {/* Theme Toggle */}
             <Button variant="ghost" size="sm">
               <SunMoon className="w-5 h-5" />
@@ -26,10 +44,25 @@ export default function AppLayout({ children }: AppLayoutProps) {
             </Button>
             
             {/* User Menu */}
-            <Button variant="ghost" size="sm" className="flex items-center gap-2">
-              <span className="sr-only md:not-sr-only">Account</span>
-              <User className="w-5 h-5" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                  <span className="sr-only md:not-sr-only">{user?.username ?? 'Account'}</span>
+                  <User className="w-5 h-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Signed in as {user?.username}</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Log out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </header>
@@ -11,6 +11,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { ChevronLeft, Download } from 'lucide-react';
 import { Script, ScriptIteration, ExportSettings } from '@shared/schema';
@@ -19,18 +20,28 @@ import { exportFormSchema, ExportFormValues } from '@/types/scriptTypes';
 interface ExportStepProps {
   script?: Script;
   iterations: ScriptIteration[];
+  activeIterationId?: number; // preselected draft, e.g. the one last viewed in review
   onBack: () => void;
   onExport: (settings: ExportSettings) => void;
   isLoading: boolean;
 }
 
+// Value of the draft picker that exports every completed iteration
+const ALL_ITERATIONS = 'all';
+
 export default function ExportStep({
   script,
   iterations,
+  activeIterationId,
   onBack,
   onExport,
   isLoading
 }: ExportStepProps) {
+  // Newest first; branches can share an iteration number
+  const completedIterations = iterations
+    .filter(it => it.status === 'completed')
+    .sort((a, b) => b.id - a.id);
+
   const form = useForm<ExportFormValues>({
     resolver: zodResolver(exportFormSchema),
     defaultValues: {
@@ -42,19 +53,23 @@ export default function ExportStep({
       enableSharing: true,
       sendEmail: false,
       email: '',
+      iterationId: completedIterations.find(it => it.id === activeIterationId)?.id ?? completedIterations[0]?.id,
+      allIterations: false,
+      pdfLayout: 'av',
     },
   });
 
   const showEmailField = form.watch('sendEmail');
+  const selectedIterationId = form.watch('iterationId');
+  const exportAll = form.watch('allIterations');
+  const selectedFormat = form.watch('format');
 
   const handleSubmit = (data: ExportFormValues) => {
     onExport(data);
   };
 
-  // Find the latest completed iteration to show in preview
-  const latestCompletedIteration = iterations
-    .filter(it => it.status === 'completed')
-    .sort((a, b) => b.iterationNumber - a.iterationNumber)[0];
+  // The draft being exported, or the latest one when exporting them all
+  const selectedIteration = completedIterations.find(it => it.id === selectedIterationId) ?? completedIterations[0];
 
   if (!script) {
     return <div>No script available for export.</div>;
@@ -72,6 +87,32 @@ export default function ExportStep({
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Export Options */}
             <div className="space-y-6">
+              {/* Draft Selection */}
+              <div className="card p-4 border rounded-lg">
+                <h3 className="font-medium text-sm mb-3">Draft</h3>
+                <Select
+                  value={exportAll ? ALL_ITERATIONS : selectedIteration?.id.toString()}
+                  onValueChange={(value) => {
+                    form.setValue('allIterations', value === ALL_ITERATIONS);
+                    if (value !== ALL_ITERATIONS) form.setValue('iterationId', parseInt(value));
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a draft" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {completedIterations.map((iteration, index) => (
+                      <SelectItem key={iteration.id} value={iteration.id.toString()}>
+                        Iteration {iteration.iterationNumber}{index === 0 && ' (latest)'}
+                      </SelectItem>
+                    ))}
+                    {completedIterations.length > 1 && (
+                      <SelectItem value={ALL_ITERATIONS}>All iterations (zip, one file per draft)</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Format Selection */}
               <div className="card p-4 border rounded-lg">
                 <h3 className="font-medium text-sm mb-3">Export Format</h3>
@@ -107,6 +148,26 @@ export default function ExportStep({
                             </label>
                           </div>
                           
+                          <div className="flex items-center">
+                            <RadioGroupItem value="odt" id="format-odt" />
+                            <label htmlFor="format-odt" className="ml-2 flex items-center">
+                              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="#18A303" className="w-5 h-5 mr-2">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zM14 8V3l5 5h-5zM7 12h10v1.5H7V12zm0 3h10v1.5H7V15zm0 3h7v1.5H7V18z" />
+                              </svg>
+                              OpenDocument (LibreOffice)
+                            </label>
+                          </div>
+                          
+                          <div className="flex items-center">
+                            <RadioGroupItem value="pdf" id="format-pdf" />
+                            <label htmlFor="format-pdf" className="ml-2 flex items-center">
+                              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="#D93025" className="w-5 h-5 mr-2">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zM14 8V3l5 5h-5zM11 11h2v7h-2v-7zm-4 0h3v7H7v-7zm7 0h3v7h-3v-7z" />
+                              </svg>
+                              PDF (two-column A/V script)
+                            </label>
+                          </div>
+                          
                           <div className="flex items-center">
                             <RadioGroupItem value="text" id="format-txt" />
                             <label htmlFor="format-txt" className="ml-2 flex items-center">
@@ -126,11 +187,73 @@ export default function ExportStep({
                               Markdown
                             </label>
                           </div>
+                          
+                          <div className="flex items-center">
+                            <RadioGroupItem value="teleprompter" id="format-teleprompter" />
+                            <label htmlFor="format-teleprompter" className="ml-2 flex items-center">
+                              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 mr-2 text-gray-600">
+                                <path d="M4 3h16a2 2 0 0 1 2 2v11a2 2 0 0 1-2 2h-6v2h3v2H7v-2h3v-2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2zm2 4v2h12V7H6zm0 4v2h9v-2H6z" />
+                              </svg>
+                              Teleprompter (spoken lines with scroll speed)
+                            </label>
+                          </div>
+                          
+                          <div className="flex items-center">
+                            <RadioGroupItem value="srt" id="format-srt" />
+                            <label htmlFor="format-srt" className="ml-2 flex items-center">
+                              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 mr-2 text-gray-600">
+                                <path d="M19 4H5a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6a2 2 0 0 0-2-2zM5 14h6v2H5v-2zm8 4H5v-2h8v2zm6 0h-4v-2h4v2zm0-4h-6v-2h6v2z" />
+                              </svg>
+                              Captions (SRT)
+                            </label>
+                          </div>
+                          
+                          <div className="flex items-center">
+                            <RadioGroupItem value="vtt" id="format-vtt" />
+                            <label htmlFor="format-vtt" className="ml-2 flex items-center">
+                              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 mr-2 text-gray-600">
+                                <path d="M19 4H5a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6a2 2 0 0 0-2-2zM5 14h6v2H5v-2zm8 4H5v-2h8v2zm6 0h-4v-2h4v2zm0-4h-6v-2h6v2z" />
+                              </svg>
+                              Captions (WebVTT)
+                            </label>
+                          </div>
+                          
+                          <div className="flex items-center">
+                            <RadioGroupItem value="fountain" id="format-fountain" />
+                            <label htmlFor="format-fountain" className="ml-2 flex items-center">
+                              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 mr-2 text-gray-600">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zM14 8V3l5 5h-5zM8 12h8v1.5H8V12zm2 3h4v1.5h-4V15zm-2 3h8v1.5H8V18z" />
+                              </svg>
+                              Fountain (screenplay)
+                            </label>
+                          </div>
                         </RadioGroup>
                       </FormControl>
                     </FormItem>
                   )}
                 />
+                {selectedFormat === 'pdf' && (
+                  <FormField
+                    control={form.control}
+                    name="pdfLayout"
+                    render={({ field }) => (
+                      <FormItem className="mt-4">
+                        <FormLabel>PDF Layout</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="av">A/V script (visuals and narration side by side)</SelectItem>
+                            <SelectItem value="shooting">Shooting script (numbered scenes and shots)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                )}
               </div>
               
               {/* Export Options */}
@@ -271,18 +394,21 @@ export default function ExportStep({
               <div className="mb-2 flex justify-between items-center">
                 <h3 className="font-medium text-sm">Preview</h3>
                 <span className="text-xs text-muted-foreground">
-                  Last Updated: {latestCompletedIteration ? new Date(latestCompletedIteration.createdAt).toLocaleString() : 'N/A'}
+                  Last Updated: {selectedIteration ? new Date(selectedIteration.createdAt).toLocaleString() : 'N/A'}
                 </span>
               </div>
-              {latestCompletedIteration ? (
+              {selectedIteration ? (
                 <div className="flex flex-col items-center justify-center h-full">
                   <div className="text-center mb-4">
                     <h4 className="font-bold">{script.title}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {exportAll ? `All ${completedIterations.length} iterations` : `Iteration ${selectedIteration.iterationNumber}`}
+                    </p>
                     <p className="text-sm text-muted-foreground">Format: {form.getValues().format.replace('_', ' ')}</p>
                     <p className="text-xs mt-2">
-                      {latestCompletedIteration.metrics?.wordCount || 0} words | 
-                      {latestCompletedIteration.metrics?.estimatedDuration 
-                        ? ` ${Math.round(Number(latestCompletedIteration.metrics.estimatedDuration) / 60)} mins` 
+                      {selectedIteration.metrics?.wordCount || 0} words | 
+                      {selectedIteration.metrics?.estimatedDuration 
+                        ? ` ${Math.round(Number(selectedIteration.metrics.estimatedDuration) / 60)} mins` 
                         : ' Unknown duration'}
                     </p>
                   </div>
@@ -306,9 +432,9 @@ export default function ExportStep({
               <ChevronLeft className="mr-2 h-4 w-4" />
               Back to Review
             </Button>
-            <Button type="submit" disabled={isLoading || !latestCompletedIteration}>
+            <Button type="submit" disabled={isLoading || !selectedIteration}>
               <Download className="mr-2 h-4 w-4" />
-              {isLoading ? 'Exporting...' : 'Export Script'}
+              {isLoading ? 'Exporting...' : exportAll ? 'Export All Iterations' : 'Export Script'}
             </Button>
           </div>
         </form>
@@ -1,8 +1,14 @@
 import React, { useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
-import { Script, ScriptIteration } from '@shared/schema';
+import { Script, ScriptIteration, ScriptSettings } from '@shared/schema';
+import { childIterationNumber, hasRefinementPassesLeft, iterationLineage, latestCompletedIteration } from '@shared/iteration-tree';
 import { IterationProgressInfo } from '@/types/scriptTypes';
+import { useIterationStream } from '@/hooks/use-iteration-stream';
+import ScriptPreview from './ScriptPreview';
+
+// Roughly how many spoken words each length setting targets (150 wpm)
+const TARGET_WORDS: Record<number, number> = { 1: 450, 2: 1050, 3: 1800 };
 
 interface GenerationStepProps {
   script?: Script;
@@ -10,6 +16,9 @@ interface GenerationStepProps {
   onBack: () => void;
   onGenerateNext: () => void;
   onSkipToReview: () => void;
+  onIterationComplete?: (iteration: ScriptIteration) => void;
+  onCancelIteration: (iterationId: number) => void;
+  onRetryIteration: (iterationId: number) => void;
   isLoading: boolean;
 }
 
@@ -19,8 +28,33 @@ export default function GenerationStep({
   onBack,
   onGenerateNext,
   onSkipToReview,
+  onIterationComplete,
+  onCancelIteration,
+  onRetryIteration,
   isLoading
 }: GenerationStepProps) {
+  const activeIteration = iterations.find(it => it.status === 'in_progress');
+  const autoRefine = !!(script?.settings as ScriptSettings | null)?.autoRefine;
+
+  // The server keeps chaining passes until all are done or one fails or is cancelled
+  const pipelineRunning = autoRefine && !iterations.some(it => it.status === 'failed' || it.status === 'cancelled');
+  const liveStream = useIterationStream(script?.id, activeIteration, onIterationComplete);
+  const passesLeft = !!script && hasRefinementPassesLeft(script, iterations);
+
+  // Progress follows the newest branch: the newest iteration and the ones it refines
+  const branch = useMemo(() => {
+    const newest = iterations.reduce<ScriptIteration | undefined>((latest, it) => !latest || it.id > latest.id ? it : latest, undefined);
+    return newest ? [...iterationLineage(newest, iterations), newest].reverse() : [];
+  }, [iterations]);
+
+  // Estimate progress of the streaming draft from words written so far
+  const streamProgress = useMemo(() => {
+    if (!script || !liveStream.content) return 0;
+    const words = liveStream.content.split(/\s+/).filter(Boolean).length;
+    const target = TARGET_WORDS[script.length] ?? TARGET_WORDS[2];
+    return Math.min(95, Math.round(words / target * 100));
+  }, [script, liveStream.content]);
+
   // Calculate current iteration information
   const iterationInfo = useMemo(() => {
     if (!script) return null;
@@ -33,13 +67,13 @@ export default function GenerationStep({
       currentIteration = {
         iterationNumber: iterations[inProgressIndex].iterationNumber,
         total: script.iterations,
-        percentComplete: 0, // We don't know the progress percentage
+        percentComplete: streamProgress,
         status: 'in-progress'
       };
-    } else if (iterations.length < script.iterations) {
+    } else if (passesLeft) {
       // All current iterations are complete, but we haven't reached the total yet
       currentIteration = {
-        iterationNumber: iterations.length + 1,
+        iterationNumber: childIterationNumber(latestCompletedIteration(iterations)),
         total: script.iterations,
         percentComplete: 0,
         status: 'pending'
@@ -55,7 +89,7 @@ export default function GenerationStep({
     }
 
     return currentIteration;
-  }, [script, iterations]);
+  }, [script, iterations, streamProgress, passesLeft]);
 
   // Generate progress bar for each iteration
   const progressBars = useMemo(() => {
@@ -63,9 +97,9 @@ export default function GenerationStep({
 
     const bars = [];
     for (let i = 1; i <= script.iterations; i++) {
-      const iteration = iterations.find(it => it.iterationNumber === i);
+      const iteration = branch.find(it => it.iterationNumber === i);
       
-      let status: 'complete' | 'in-progress' | 'pending' = 'pending';
+      let status: 'complete' | 'in-progress' | 'failed' | 'cancelled' | 'queued' | 'pending' = pipelineRunning ? 'queued' : 'pending';
       let progress = 0;
       
       if (iteration) {
@@ -74,13 +108,14 @@ export default function GenerationStep({
           progress = 100;
         } else if (iteration.status === 'in_progress') {
           status = 'in-progress';
-          progress = 73; // Hardcoded for design; in a real app would be dynamic
-        } else {
-          status = 'pending';
+          progress = streamProgress;
+        } else if (iteration.status === 'failed' || iteration.status === 'cancelled') {
+          status = iteration.status;
         }
       }
       
       bars.push({
+        iterationId: iteration?.id,
         iterationNumber: i,
         status,
         progress
@@ -88,7 +123,7 @@ export default function GenerationStep({
     }
     
     return bars;
-  }, [script, iterations]);
+  }, [script, branch, streamProgress, pipelineRunning]);
 
   // Determine if we can skip to review (all iterations complete or at least one is)
   const canSkipToReview = useMemo(() => {
@@ -107,7 +142,9 @@ export default function GenerationStep({
       <div className="space-y-2">
         <h2 className="text-2xl font-semibold tracking-tight">Generating Your Script</h2>
         <p className="text-sm text-muted-foreground">
-          The AI is working through multiple iterations to create your script.
+          {autoRefine
+            ? 'Auto-refine is on: each completed iteration is refined automatically until all are done.'
+            : 'The AI is working through multiple iterations to create your script.'}
         </p>
       </div>
       
@@ -128,10 +165,31 @@ export default function GenerationStep({
             <div key={bar.iterationNumber} className="space-y-1">
               <div className="flex justify-between text-sm">
                 <span>Iteration {bar.iterationNumber}</span>
-                <span>
+                <span className="flex items-center gap-2">
                   {bar.status === 'complete' ? 'Complete' : 
                    bar.status === 'in-progress' ? `${bar.progress}%` : 
+                   bar.status === 'failed' ? 'Failed' :
+                   bar.status === 'cancelled' ? 'Cancelled' :
+                   bar.status === 'queued' ? 'Queued' :
                    'Pending'}
+                  {bar.iterationId && bar.status === 'in-progress' && (
+                    <button
+                      type="button"
+                      onClick={() => onCancelIteration(bar.iterationId!)}
+                      className="text-xs text-muted-foreground underline hover:text-foreground"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  {bar.iterationId && (bar.status === 'failed' || bar.status === 'cancelled') && (
+                    <button
+                      type="button"
+                      onClick={() => onRetryIteration(bar.iterationId!)}
+                      className="text-xs text-primary underline"
+                    >
+                      Retry
+                    </button>
+                  )}
                 </span>
               </div>
               <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -139,15 +197,35 @@ export default function GenerationStep({
                   className={`h-full rounded-full ${
                     bar.status === 'complete' ? 'bg-green-500' : 
                     bar.status === 'in-progress' ? 'bg-primary' : 
+                    bar.status === 'failed' ? 'bg-red-500' :
                     'bg-gray-400'
                   }`}
-                  style={{ width: `${bar.progress}%` }}
+                  style={{ width: `${bar.status === 'failed' || bar.status === 'cancelled' ? 100 : bar.progress}%` }}
                 ></div>
               </div>
             </div>
           ))}
         </div>
         
+        {/* Live Draft */}
+        {activeIteration && (
+          <div className="mt-8 card p-4 border rounded-lg h-[300px] overflow-auto">
+            <div className="mb-2 flex justify-between items-center">
+              <h3 className="font-medium text-sm">Iteration {activeIteration.iterationNumber} (live)</h3>
+              {liveStream.isStreaming && (
+                <span className="text-xs text-muted-foreground">Writing...</span>
+              )}
+            </div>
+            {liveStream.error ? (
+              <p className="text-sm text-destructive">{liveStream.error}</p>
+            ) : liveStream.content ? (
+              <ScriptPreview content={liveStream.content} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Waiting for the first words...</p>
+            )}
+          </div>
+        )}
+        
         {/* Current Action */}
         <div className="mt-10 text-center text-sm text-muted-foreground">
           {iterations.some(it => it.status === 'in_progress') ? (
@@ -161,8 +239,10 @@ export default function GenerationStep({
                 Processing...
               </div>
             </>
-          ) : iterations.length === script.iterations ? (
+          ) : !passesLeft ? (
             <p>All iterations complete. Ready for review.</p>
+          ) : pipelineRunning ? (
+            <p>Queueing the next refinement pass...</p>
           ) : (
             <Button 
               onClick={onGenerateNext}
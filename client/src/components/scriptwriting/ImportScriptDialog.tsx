@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { ImportScriptInput } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+type ImportFormat = ImportScriptInput['format'];
+
+interface ImportScriptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (format: ImportFormat, source: string, title?: string) => void;
+  isImporting: boolean;
+}
+
+const IMPORT_FORMATS: { value: ImportFormat; label: string; extensions: string[]; hint: string }[] = [
+  {
+    value: 'text',
+    label: 'Plain text or transcript',
+    extensions: ['.txt'],
+    hint: 'Headings, SPEAKER: labels and [bracketed] directions are recognized; long paragraphs are split into sentences.',
+  },
+  {
+    value: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    hint: 'A leading # heading becomes the title and ## headings become sections.',
+  },
+  {
+    value: 'docx',
+    label: 'Word document',
+    extensions: ['.docx'],
+    hint: 'Heading styles become sections and the Title style the script title.',
+  },
+  {
+    value: 'srt',
+    label: 'Subtitles (SRT)',
+    extensions: ['.srt'],
+    hint: 'Captions are joined into sentences and grouped into timed sections of about a minute.',
+  },
+  {
+    value: 'fountain',
+    label: 'Fountain screenplay',
+    extensions: ['.fountain', '.spmd'],
+    hint: 'Scene headings become sections, dialogue spoken lines and parentheticals speaker notes.',
+  },
+];
+
+// Formats whose files carry no title of their own
+const UNTITLED_FORMATS: ImportFormat[] = ['text', 'srt'];
+
+function formatForFile(name: string): ImportFormat | undefined {
+  const lower = name.toLowerCase();
+  return IMPORT_FORMATS.find(format => format.extensions.some(extension => lower.endsWith(extension)))?.value;
+}
+
+// Binary files travel to the server base64-encoded
+async function fileToBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// Bring an existing draft, transcript or screenplay in as a finished first
+// draft. The AI model, tone and refinement settings come from the wizard form.
+export default function ImportScriptDialog({ open, onOpenChange, onImport, isImporting }: ImportScriptDialogProps) {
+  const [format, setFormat] = useState<ImportFormat>('text');
+  const [source, setSource] = useState('');
+  const [title, setTitle] = useState('');
+  const [fileName, setFileName] = useState<string>();
+
+  const selectedFormat = IMPORT_FORMATS.find(option => option.value === format)!;
+  const isBinary = format === 'docx';
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const detected = formatForFile(file.name) ?? format;
+    setFormat(detected);
+    setSource(detected === 'docx' ? await fileToBase64(file) : await file.text());
+    setFileName(file.name);
+    if (!title && UNTITLED_FORMATS.includes(detected)) {
+      setTitle(file.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const handleFormatChange = (value: ImportFormat) => {
+    // Text pasted for another format cannot be read as a Word document, and vice versa
+    if ((value === 'docx') !== isBinary) {
+      setSource('');
+      setFileName(undefined);
+    }
+    setFormat(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import an existing script</DialogTitle>
+          <DialogDescription>
+            The imported text becomes iteration 1 of a new script, and later iterations refine it with the model,
+            tone and refinement settings chosen in the form.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Format</span>
+            <Select value={format} onValueChange={(value) => handleFormatChange(value as ImportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPORT_FORMATS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{selectedFormat.hint}</p>
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="import-file" className="text-sm font-medium">File</label>
+            <Input
+              id="import-file"
+              type="file"
+              accept={IMPORT_FORMATS.flatMap(option => option.extensions).join(',')}
+              onChange={handleFile}
+            />
+            {fileName && <p className="text-xs text-muted-foreground">Loaded {fileName}</p>}
+          </div>
+
+          {!isBinary && (
+            <div className="space-y-1">
+              <label htmlFor="import-source" className="text-sm font-medium">Or paste it here</label>
+              <Textarea
+                id="import-source"
+                value={source}
+                onChange={(e) => {
+                  setSource(e.target.value);
+                  setFileName(undefined);
+                }}
+                placeholder="Paste a draft or the transcript of a past video"
+                className="min-h-[200px] font-mono text-xs"
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label htmlFor="import-title" className="text-sm font-medium">Title</label>
+            <Input
+              id="import-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Taken from the file when left empty"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => onImport(format, source, title.trim() || undefined)}
+            disabled={!source.trim() || isImporting}
+          >
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { 
   Form, 
@@ -21,26 +22,26 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { Slider } from '@/components/ui/slider';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { ChevronRight } from 'lucide-react';
+import { ChevronRight, Upload } from 'lucide-react';
 
-import { CreateScriptInput, createScriptSchema, ScriptSettings } from '@shared/schema';
-import { ScriptTone, AIModel } from '@/types/scriptTypes';
+import { AIModelInfo, CreateScriptInput, createScriptSchema, ImportScriptInput, ScriptSettings } from '@shared/schema';
+import { toneOptions } from '@/types/scriptTypes';
+import ImportScriptDialog from './ImportScriptDialog';
 
 interface InputStepProps {
   onSubmit: (data: CreateScriptInput) => void;
+  onImport: (data: ImportScriptInput) => void;
   isLoading: boolean;
+  isImporting: boolean;
 }
 
-export default function InputStep({ onSubmit, isLoading }: InputStepProps) {
-  // Define tone options
-  const toneOptions: { value: ScriptTone; label: string }[] = [
-    { value: 'professional', label: 'Professional' },
-    { value: 'casual', label: 'Casual' },
-    { value: 'educational', label: 'Educational' },
-    { value: 'entertaining', label: 'Entertaining' },
-    { value: 'conversational', label: 'Conversational' },
-    { value: 'inspirational', label: 'Inspirational' },
-  ];
+export default function InputStep({ onSubmit, onImport, isLoading, isImporting }: InputStepProps) {
+  const [showImport, setShowImport] = useState(false);
+
+  // Models are served by the provider registry on the server
+  const { data: models = [], isLoading: isLoadingModels } = useQuery<AIModelInfo[]>({
+    queryKey: ['/api/models'],
+  });
 
   // Setup form
   const form = useForm<CreateScriptInput>({
@@ -49,7 +50,7 @@ export default function InputStep({ onSubmit, isLoading }: InputStepProps) {
       title: '',
       instructions: '',
       structure: '',
-      aiModel: 'gpt-4',
+      aiModel: 'gpt-4o',
       tone: 'conversational',
       length: 2,
       iterations: 3,
@@ -57,13 +58,41 @@ export default function InputStep({ onSubmit, isLoading }: InputStepProps) {
         reduceRedundancy: true,
         enhanceClarity: true,
         improveEngagement: true,
+        autoRefine: true,
+        structuredOutput: false,
       },
     },
   });
 
+  const selectedModel = models.find(model => model.id === form.watch('aiModel'));
+  const supportsStructured = selectedModel?.capabilities.structured ?? false;
+
+  // Fall back to the first usable model when the default isn't configured
+  useEffect(() => {
+    const current = models.find(model => model.id === form.getValues('aiModel'));
+    if (current?.available) return;
+
+    const firstAvailable = models.find(model => model.available);
+    if (firstAvailable) {
+      form.setValue('aiModel', firstAvailable.id);
+    }
+  }, [models, form]);
+
   // Get selected tone from form
   const selectedTone = form.watch('tone');
 
+  // Imports use the model, tone and refinement settings chosen in the form
+  const handleImport = (format: ImportScriptInput['format'], source: string, title?: string) => {
+    const values = form.getValues();
+    onImport({
+      ...values,
+      title: title ?? (values.title.trim() || undefined),
+      instructions: values.instructions.trim() || undefined,
+      format,
+      source,
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
@@ -134,18 +163,20 @@ export default function InputStep({ onSubmit, isLoading }: InputStepProps) {
                     <FormLabel>AI Model</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
+                      disabled={isLoadingModels}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select AI model" />
+                          <SelectValue placeholder={isLoadingModels ? "Loading models..." : "Select AI model"} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="gpt-4">GPT-4 (Most powerful, slower)</SelectItem>
-                        <SelectItem value="gpt-3.5">GPT-3.5 (Balanced)</SelectItem>
-                        <SelectItem value="claude">Claude (Creative, narrative-focused)</SelectItem>
-                        <SelectItem value="grok">Grok (Fast, concise)</SelectItem>
+                        {models.map((model) => (
+                          <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                            {model.label} ({model.description}){!model.available && ' - not configured'}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </FormItem>
@@ -278,12 +309,51 @@ export default function InputStep({ onSubmit, isLoading }: InputStepProps) {
                       </div>
                     )}
                   />
+                  
+                  <FormField
+                    control={form.control}
+                    name="settings.autoRefine"
+                    render={({ field }) => (
+                      <div className="flex items-center">
+                        <Checkbox 
+                          id="auto-refine" 
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                        <label htmlFor="auto-refine" className="ml-2 text-sm">
+                          Auto-refine through all iterations
+                        </label>
+                      </div>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="settings.structuredOutput"
+                    render={({ field }) => (
+                      <div className="flex items-center">
+                        <Checkbox 
+                          id="structured-output" 
+                          checked={field.value && supportsStructured}
+                          onCheckedChange={field.onChange}
+                          disabled={!supportsStructured}
+                        />
+                        <label htmlFor="structured-output" className="ml-2 text-sm">
+                          Structured output (validated sections, lines and directions; no live preview)
+                        </label>
+                      </div>
+                    )}
+                  />
                 </div>
               </FormItem>
             </div>
           </div>
           
-          <div className="flex justify-end pt-4">
+          <div className="flex justify-between pt-4">
+            <Button type="button" variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import Existing Script
+            </Button>
             <Button type="submit" disabled={isLoading}>
               {isLoading ? 'Creating...' : 'Start Generation'}
               <ChevronRight className="ml-2 h-4 w-4" />
@@ -291,6 +361,13 @@ export default function InputStep({ onSubmit, isLoading }: InputStepProps) {
           </div>
         </form>
       </Form>
+
+      <ImportScriptDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        onImport={handleImport}
+        isImporting={isImporting}
+      />
     </div>
   );
 }
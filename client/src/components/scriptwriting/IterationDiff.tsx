@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { DiffChunk, ScriptDiff, ScriptIteration, SectionDiff } from '@shared/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+interface IterationDiffProps {
+  scriptId: number;
+  iterations: ScriptIteration[]; // completed iterations, oldest first
+}
+
+type DiffLayout = 'inline' | 'side-by-side';
+
+const STATUS_LABELS: Record<SectionDiff['status'], string> = {
+  unchanged: 'Unchanged',
+  modified: 'Modified',
+  added: 'Added',
+  removed: 'Removed',
+};
+
+function Chunk({ chunk }: { chunk: DiffChunk }) {
+  if (chunk.type === 'insert') {
+    return <ins className="bg-green-100 text-green-900 no-underline rounded-sm">{chunk.text}</ins>;
+  }
+  if (chunk.type === 'delete') {
+    return <del className="bg-red-100 text-red-900 rounded-sm">{chunk.text}</del>;
+  }
+  return <span>{chunk.text}</span>;
+}
+
+function SectionHeader({ section }: { section: SectionDiff }) {
+  return (
+    <div className="flex justify-between items-center mb-2">
+      <h4 className="font-medium text-sm">
+        {section.previousTitle ? `${section.previousTitle} → ${section.title}` : section.title}
+      </h4>
+      <span className="text-xs text-muted-foreground">{STATUS_LABELS[section.status]}</span>
+    </div>
+  );
+}
+
+export default function IterationDiff({ scriptId, iterations }: IterationDiffProps) {
+  const [fromId, setFromId] = useState(iterations[iterations.length - 2]?.id ?? iterations[0]?.id);
+  const [toId, setToId] = useState(iterations[iterations.length - 1]?.id);
+  const [layout, setLayout] = useState<DiffLayout>('inline');
+
+  const { data: diff, isLoading, error } = useQuery<ScriptDiff>({
+    queryKey: [`/api/scripts/${scriptId}/diff?from=${fromId}&to=${toId}`],
+    enabled: !!fromId && !!toId,
+    staleTime: 0, // iterations can be edited in place
+  });
+
+  const iterationSelect = (value: number | undefined, onChange: (id: number) => void) => (
+    <Select value={value?.toString()} onValueChange={(id) => onChange(parseInt(id))}>
+      <SelectTrigger className="w-40">
+        <SelectValue placeholder="Iteration" />
+      </SelectTrigger>
+      <SelectContent>
+        {iterations.map((iteration) => (
+          <SelectItem key={iteration.id} value={iteration.id.toString()}>
+            Iteration {iteration.iterationNumber}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {iterationSelect(fromId, setFromId)}
+        <span className="text-sm text-muted-foreground">compared to</span>
+        {iterationSelect(toId, setToId)}
+
+        <ToggleGroup
+          type="single"
+          value={layout}
+          onValueChange={(value) => value && setLayout(value as DiffLayout)}
+          className="ml-auto"
+        >
+          <ToggleGroupItem value="inline" size="sm">Inline</ToggleGroupItem>
+          <ToggleGroupItem value="side-by-side" size="sm">Side by side</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Comparing iterations...
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">Failed to compare iterations: {(error as Error).message}</p>
+      )}
+
+      {diff && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            <span className="text-green-700">+{diff.wordsAdded} words</span>
+            {' / '}
+            <span className="text-red-700">−{diff.wordsRemoved} words</span>
+          </p>
+
+          <div className="space-y-4">
+            {diff.sections.map((section, index) => (
+              <div key={index} className="card p-4 border rounded-lg">
+                <SectionHeader section={section} />
+
+                {layout === 'inline' ? (
+                  <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                    {section.chunks.map((chunk, i) => <Chunk key={i} chunk={chunk} />)}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4 text-sm leading-relaxed whitespace-pre-wrap">
+                    <div className="border-r pr-4">
+                      {section.chunks
+                        .filter(chunk => chunk.type !== 'insert')
+                        .map((chunk, i) => <Chunk key={i} chunk={chunk} />)}
+                    </div>
+                    <div>
+                      {section.chunks
+                        .filter(chunk => chunk.type !== 'delete')
+                        .map((chunk, i) => <Chunk key={i} chunk={chunk} />)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
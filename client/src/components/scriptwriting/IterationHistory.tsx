@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Eye, EyeOff, Loader2, RotateCcw } from 'lucide-react';
+import { IterationRevisionEntry, IterationRevisionSource, ScriptIteration } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import ScriptPreview from './ScriptPreview';
+
+interface IterationHistoryProps {
+  scriptId: number;
+  iteration: ScriptIteration;
+  onRestore: (revisionId: number) => void;
+  isRestoring: boolean;
+}
+
+const SOURCE_LABELS: Record<IterationRevisionSource, string> = {
+  ai: 'AI draft',
+  edit: 'Edited',
+  restore: 'Restored',
+  import: 'Imported',
+};
+
+function describe(revision: IterationRevisionEntry): string {
+  const label = SOURCE_LABELS[revision.source as IterationRevisionSource] ?? revision.source;
+  return revision.authorName ? `${label} by ${revision.authorName}` : label;
+}
+
+export default function IterationHistory({ scriptId, iteration, onRestore, isRestoring }: IterationHistoryProps) {
+  const [previewId, setPreviewId] = useState<number | null>(null);
+
+  const { data: revisions, isLoading, error } = useQuery<IterationRevisionEntry[]>({
+    queryKey: [`/api/scripts/${scriptId}/iterations/${iteration.id}/revisions`],
+    staleTime: 0, // a save elsewhere adds a revision
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load history: {(error as Error).message}</p>;
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">This iteration has not been edited yet.</p>;
+  }
+
+  // Versions are numbered from the oldest, which is listed last
+  const versionOf = (revisionId: number) => revisions.length - revisions.findIndex(r => r.id === revisionId);
+
+  return (
+    <ul className="space-y-2 max-h-[60vh] overflow-auto">
+      {revisions.map((revision, index) => {
+        // The newest revision is what the iteration currently holds
+        const isCurrent = index === 0;
+
+        return (
+          <li key={revision.id} className="border rounded-md p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">
+                  {describe(revision)}
+                  {isCurrent && (
+                    <span className="ml-2 text-xs bg-green-100 text-green-800 py-0.5 px-2 rounded-full">Current</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Version {versionOf(revision.id)} · {new Date(revision.createdAt).toLocaleString()}
+                  {revision.restoredFromId && ` · copy of version ${versionOf(revision.restoredFromId)}`}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => setPreviewId(previewId === revision.id ? null : revision.id)}
+                >
+                  {previewId === revision.id ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+                {!isCurrent && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={isRestoring}
+                    onClick={() => onRestore(revision.id)}
+                  >
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+            {previewId === revision.id && (
+              <div className="mt-3 pt-3 border-t max-h-64 overflow-auto">
+                <ScriptPreview content={revision.content} document={revision.document} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { GitBranch, Loader2 } from 'lucide-react';
+import { AIModelInfo, IterationOverrides, Script, ScriptIteration, ScriptMetrics } from '@shared/schema';
+import { buildIterationTree, iterationConfig, IterationNode } from '@shared/iteration-tree';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toneOptions } from '@/types/scriptTypes';
+import { formatTimeFromSeconds } from '@/lib/utils';
+
+interface IterationTreeProps {
+  script: Script;
+  iterations: ScriptIteration[];
+  activeIterationId?: number;
+  onSelectIteration: (id: number) => void;
+  onFork: (iterationId: number, overrides: IterationOverrides) => void;
+}
+
+type RefinementToggle = 'reduceRedundancy' | 'enhanceClarity' | 'improveEngagement';
+
+const REFINEMENT_LABELS: Record<RefinementToggle, string> = {
+  reduceRedundancy: 'Reduce redundancy',
+  enhanceClarity: 'Enhance clarity',
+  improveEngagement: 'Improve engagement',
+};
+
+export default function IterationTree({
+  script,
+  iterations,
+  activeIterationId,
+  onSelectIteration,
+  onFork,
+}: IterationTreeProps) {
+  const [forkSource, setForkSource] = useState<ScriptIteration | null>(null);
+  const [forkSettings, setForkSettings] = useState<Required<IterationOverrides> | null>(null);
+
+  const tree = useMemo(() => buildIterationTree(iterations), [iterations]);
+
+  const { data: models = [] } = useQuery<AIModelInfo[]>({
+    queryKey: ['/api/models'],
+  });
+
+  // Start from the settings the source iteration was written with
+  const openForkDialog = (iteration: ScriptIteration) => {
+    const { aiModel, tone, settings } = iterationConfig(script, iteration);
+    setForkSource(iteration);
+    setForkSettings({
+      aiModel,
+      tone,
+      reduceRedundancy: settings.reduceRedundancy ?? true,
+      enhanceClarity: settings.enhanceClarity ?? true,
+      improveEngagement: settings.improveEngagement ?? true,
+    });
+  };
+
+  const handleFork = () => {
+    if (forkSource && forkSettings) {
+      onFork(forkSource.id, forkSettings);
+    }
+    setForkSource(null);
+  };
+
+  const renderNode = ({ iteration, children }: IterationNode) => {
+    const { aiModel, tone } = iterationConfig(script, iteration);
+    const metrics = iteration.metrics as ScriptMetrics | null;
+    const isActive = iteration.id === activeIterationId;
+    const isCompleted = iteration.status === 'completed';
+
+    // Only mention what differs from the script's own settings
+    const modelLabel = models.find(model => model.id === aiModel)?.label ?? aiModel;
+    const changes = [
+      aiModel !== script.aiModel ? modelLabel : '',
+      tone !== script.tone ? tone : '',
+    ].filter(Boolean);
+
+    return (
+      <li key={iteration.id}>
+        <div
+          className={`group flex items-center justify-between gap-2 rounded-md px-2 py-1 text-sm ${isActive ? 'bg-muted font-medium' : ''}`}
+        >
+          <button
+            type="button"
+            className="flex-1 text-left disabled:text-muted-foreground"
+            disabled={!isCompleted}
+            onClick={() => onSelectIteration(iteration.id)}
+          >
+            Iteration {iteration.iterationNumber}
+            {iteration.status === 'in_progress' && <Loader2 className="ml-1 inline h-3 w-3 animate-spin" />}
+            {iteration.status === 'failed' && <span className="ml-1 text-xs text-red-600">failed</span>}
+            {iteration.status === 'cancelled' && <span className="ml-1 text-xs">cancelled</span>}
+            {metrics?.estimatedDuration !== undefined && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                {formatTimeFromSeconds(metrics.estimatedDuration)}
+              </span>
+            )}
+            {changes.length > 0 && (
+              <span className="ml-2 text-xs font-normal text-primary">{changes.join(', ')}</span>
+            )}
+          </button>
+          {isCompleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs opacity-0 group-hover:opacity-100 focus:opacity-100"
+              onClick={() => openForkDialog(iteration)}
+            >
+              <GitBranch className="mr-1 h-3 w-3" />
+              Fork
+            </Button>
+          )}
+        </div>
+        {children.length > 0 && (
+          <ul className="ml-3 border-l pl-2">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <>
+      <ul className="space-y-0.5">{tree.map(renderNode)}</ul>
+
+      <Dialog open={!!forkSource} onOpenChange={(open) => !open && setForkSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Fork iteration {forkSource?.iterationNumber}</DialogTitle>
+            <DialogDescription>
+              Write a new iteration that refines this one with different settings. Existing iterations are not changed.
+            </DialogDescription>
+          </DialogHeader>
+
+          {forkSettings && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <span className="text-sm font-medium">AI Model</span>
+                  <Select
+                    value={forkSettings.aiModel}
+                    onValueChange={(aiModel) => setForkSettings({ ...forkSettings, aiModel })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select AI model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map((model) => (
+                        <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                          {model.label}{!model.available && ' - not configured'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-sm font-medium">Tone</span>
+                  <Select
+                    value={forkSettings.tone}
+                    onValueChange={(tone) => setForkSettings({ ...forkSettings, tone })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select tone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {toneOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {(Object.keys(REFINEMENT_LABELS) as RefinementToggle[]).map((key) => (
+                  <div key={key} className="flex items-center">
+                    <Checkbox
+                      id={`fork-${key}`}
+                      checked={forkSettings[key]}
+                      onCheckedChange={(checked) => setForkSettings({ ...forkSettings, [key]: checked === true })}
+                    />
+                    <label htmlFor={`fork-${key}`} className="ml-2 text-sm">
+                      {REFINEMENT_LABELS[key]}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForkSource(null)}>Cancel</Button>
+            <Button onClick={handleFork}>
+              <GitBranch className="mr-2 h-4 w-4" />
+              Fork
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,11 +1,24 @@
 import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ChevronLeft, ChevronRight, Edit, Plus, ArrowRight, FileText, Type } from 'lucide-react';
-import { Script, ScriptIteration } from '@shared/schema';
+import { ChevronLeft, ChevronRight, Edit, Plus, ArrowRight, FileText, Type, Repeat, Loader2, History, MonitorPlay } from 'lucide-react';
+import { IterationOverrides, Script, ScriptIteration, ScriptMetrics } from '@shared/schema';
+import { latestCompletedIteration } from '@shared/iteration-tree';
 import ScriptPreview from './ScriptPreview';
+import IterationDiff from './IterationDiff';
+import SelectionEditor from './SelectionEditor';
+import IterationHistory from './IterationHistory';
+import IterationTree from './IterationTree';
 import { formatTimeFromSeconds } from '@/lib/utils';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 
 interface ReviewStepProps {
   script?: Script;
@@ -13,6 +26,9 @@ interface ReviewStepProps {
   activeIterationId?: number;
   onSelectIteration: (id: number) => void;
   onUpdateIteration: (id: number, content: string) => void;
+  onRegenerateSection: (iterationId: number, sectionIndex: number, instructions?: string) => void;
+  onRestoreRevision: (iterationId: number, revisionId: number) => void;
+  onForkIteration: (iterationId: number, overrides: IterationOverrides) => void;
   onBack: () => void;
   onContinue: () => void;
   isLoading: boolean;
@@ -24,17 +40,24 @@ export default function ReviewStep({
   activeIterationId,
   onSelectIteration,
   onUpdateIteration,
+  onRegenerateSection,
+  onRestoreRevision,
+  onForkIteration,
   onBack,
   onContinue,
   isLoading
 }: ReviewStepProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState('');
+  const [showRepeats, setShowRepeats] = useState(false);
+  const [sectionToRegenerate, setSectionToRegenerate] = useState<{ index: number; title: string } | null>(null);
+  const [sectionInstructions, setSectionInstructions] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
 
   // Find completed iterations
   const completedIterations = useMemo(() => {
     return iterations.filter(it => it.status === 'completed')
-      .sort((a, b) => a.iterationNumber - b.iterationNumber);
+      .sort((a, b) => a.iterationNumber - b.iterationNumber || a.id - b.id);
   }, [iterations]);
 
   // Calculate the active iteration
@@ -42,23 +65,46 @@ export default function ReviewStep({
     if (activeIterationId) {
       return iterations.find(it => it.id === activeIterationId);
     }
-    // Default to the last completed iteration
-    return completedIterations.length > 0 ? completedIterations[completedIterations.length - 1] : undefined;
+    // Default to the newest completed iteration
+    return latestCompletedIteration(completedIterations);
   }, [activeIterationId, iterations, completedIterations]);
 
   // Calculate script analysis
   const scriptAnalysis = useMemo(() => {
     if (!activeIteration || !activeIteration.metrics) return null;
     
-    const metrics = activeIteration.metrics as any;
+    const metrics = activeIteration.metrics as ScriptMetrics;
     return {
       estimatedDuration: metrics.estimatedDuration || 0,
       wordCount: metrics.wordCount || 0,
       readabilityScore: metrics.readabilityScore,
       redundancyReduction: metrics.redundancyReduction,
+      fleschReadingEase: metrics.fleschReadingEase,
+      fleschKincaidGrade: metrics.fleschKincaidGrade,
+      averageSentenceLength: metrics.sentenceLengths?.average,
+      longSentences: metrics.sentenceLengths?.long,
+      fillerWordDensity: metrics.fillerWordDensity,
+      sections: metrics.sections ?? [],
+      redundancy: metrics.redundancy,
     };
   }, [activeIteration]);
 
+  // Sentences the redundancy analyzer flagged as repeated
+  const repeatedPassages = useMemo(() => {
+    return scriptAnalysis?.redundancy?.clusters.flatMap(cluster => cluster.sentences) ?? [];
+  }, [scriptAnalysis]);
+
+  // A section rewrite or a fork is running in the background
+  const isRegenerating = iterations.some(it => it.status === 'in_progress');
+
+  const handleRegenerateSection = () => {
+    if (activeIteration && sectionToRegenerate) {
+      onRegenerateSection(activeIteration.id, sectionToRegenerate.index, sectionInstructions.trim() || undefined);
+    }
+    setSectionToRegenerate(null);
+    setSectionInstructions('');
+  };
+
   // Handle starting edit mode
   const handleStartEditing = () => {
     if (activeIteration) {
@@ -106,6 +152,9 @@ export default function ReviewStep({
               Iteration {iteration.iterationNumber}
             </TabsTrigger>
           ))}
+          {completedIterations.length > 1 && (
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+          )}
         </TabsList>
         
         {/* Content for each tab */}
@@ -115,28 +164,51 @@ export default function ReviewStep({
               {/* Script Preview */}
               {isEditing ? (
                 <div className="card p-4 border rounded-lg h-[500px] overflow-auto">
-                  <Textarea
+                  <SelectionEditor
+                    scriptId={script.id}
                     value={editedContent}
-                    onChange={(e) => setEditedContent(e.target.value)}
-                    className="w-full h-full font-mono text-sm leading-relaxed"
+                    onChange={setEditedContent}
                   />
                 </div>
               ) : (
                 <div className="card p-4 border rounded-lg h-[500px] overflow-auto">
                   <div className="mb-2 flex justify-between items-center">
                     <h3 className="font-medium text-sm">Final Version</h3>
-                    {scriptAnalysis?.redundancyReduction && (
+                    {!!scriptAnalysis?.redundancyReduction && scriptAnalysis.redundancyReduction > 0 && (
                       <span className="text-xs bg-green-100 text-green-800 py-1 px-2 rounded-full">
                         Redundancy reduced by {scriptAnalysis.redundancyReduction.toFixed(0)}%
                       </span>
                     )}
                   </div>
-                  <ScriptPreview content={activeIteration.content} />
+                  {isRegenerating && (
+                    <div className="mb-3 flex items-center text-xs text-muted-foreground">
+                      <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                      Writing a new iteration. It will appear here when it's ready.
+                    </div>
+                  )}
+                  <ScriptPreview
+                    content={activeIteration.content}
+                    document={activeIteration.document}
+                    highlights={showRepeats ? repeatedPassages : undefined}
+                    onRegenerateSection={isRegenerating ? undefined : (index, title) => setSectionToRegenerate({ index, title })}
+                  />
                 </div>
               )}
               
               {/* Edit Tools */}
               <div className="space-y-4">
+                {/* Iteration Tree */}
+                <div className="card p-4 border rounded-lg">
+                  <h3 className="font-medium text-sm mb-3">Iterations</h3>
+                  <IterationTree
+                    script={script}
+                    iterations={iterations}
+                    activeIterationId={activeIteration.id}
+                    onSelectIteration={onSelectIteration}
+                    onFork={onForkIteration}
+                  />
+                </div>
+                
                 {/* Analysis Card */}
                 <div className="card p-4 border rounded-lg">
                   <h3 className="font-medium text-sm mb-3">Script Analysis</h3>
@@ -171,9 +243,84 @@ export default function ReviewStep({
                           : 'Unknown'}
                       </span>
                     </div>
+
+                    {scriptAnalysis?.fleschReadingEase !== undefined && (
+                      <div className="flex justify-between text-sm">
+                        <span>Reading Ease:</span>
+                        <span className="font-medium">
+                          {scriptAnalysis.fleschReadingEase.toFixed(0)} (grade {scriptAnalysis.fleschKincaidGrade?.toFixed(1)})
+                        </span>
+                      </div>
+                    )}
+
+                    {scriptAnalysis?.averageSentenceLength !== undefined && (
+                      <div className="flex justify-between text-sm">
+                        <span>Avg. Sentence Length:</span>
+                        <span className="font-medium">
+                          {scriptAnalysis.averageSentenceLength} words
+                          {scriptAnalysis.longSentences ? ` (${scriptAnalysis.longSentences} long)` : ''}
+                        </span>
+                      </div>
+                    )}
+
+                    {scriptAnalysis?.fillerWordDensity !== undefined && (
+                      <div className="flex justify-between text-sm">
+                        <span>Filler Words:</span>
+                        <span className="font-medium">{scriptAnalysis.fillerWordDensity}%</span>
+                      </div>
+                    )}
                   </div>
+
+                  {/* Spoken time per section */}
+                  {scriptAnalysis && scriptAnalysis.sections.length > 1 && (
+                    <div className="mt-4 pt-3 border-t space-y-1">
+                      {scriptAnalysis.sections.map((section, index) => (
+                        <div key={index} className="flex justify-between text-xs text-muted-foreground">
+                          <span className="truncate mr-2">{section.title}</span>
+                          <span>{formatTimeFromSeconds(section.estimatedDuration)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 
+                {/* Repetition Card */}
+                {scriptAnalysis?.redundancy && (
+                  <div className="card p-4 border rounded-lg">
+                    <div className="flex justify-between items-center mb-3">
+                      <h3 className="font-medium text-sm">Repetition</h3>
+                      <span className="text-xs text-muted-foreground">
+                        {scriptAnalysis.redundancy.score}% repeated phrasing
+                      </span>
+                    </div>
+
+                    {scriptAnalysis.redundancy.clusters.length > 0 ? (
+                      <>
+                        <ul className="space-y-2 mb-3">
+                          {scriptAnalysis.redundancy.clusters.slice(0, 3).map((cluster, index) => (
+                            <li key={index} className="text-xs flex justify-between gap-2">
+                              <span className="truncate">"{cluster.sentences[0]}"</span>
+                              <span className="shrink-0 text-muted-foreground">×{cluster.occurrences}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => setShowRepeats(!showRepeats)}
+                          disabled={isEditing}
+                        >
+                          <Repeat className="mr-2 h-4 w-4" />
+                          {showRepeats ? 'Hide repeated passages' : 'Highlight repeated passages'}
+                        </Button>
+                      </>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">No repeated sentences found.</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Refinement Options */}
                 <div className="card p-4 border rounded-lg">
                   <h3 className="font-medium text-sm mb-3">Refinement Options</h3>
@@ -222,6 +369,16 @@ export default function ReviewStep({
                       <p className="text-xs text-muted-foreground">
                         Make specific changes to the content, structure, or phrasing.
                       </p>
+                      <Button variant="outline" onClick={() => setShowHistory(true)} className="w-full mt-3">
+                        <History className="mr-2 h-4 w-4" />
+                        Version History
+                      </Button>
+                      <Button variant="outline" asChild className="w-full mt-2">
+                        <a href={`/teleprompter/${script.id}?iteration=${activeIteration.id}`} target="_blank" rel="noreferrer">
+                          <MonitorPlay className="mr-2 h-4 w-4" />
+                          Open Teleprompter
+                        </a>
+                      </Button>
                     </>
                   )}
                 </div>
@@ -235,12 +392,61 @@ export default function ReviewStep({
           <TabsContent key={iteration.id} value={`iteration-${iteration.id}`}>
             <div className="card p-4 border rounded-lg">
               <h3 className="font-medium text-sm mb-3">Iteration {iteration.iterationNumber}</h3>
-              <ScriptPreview content={iteration.content} />
+              <ScriptPreview content={iteration.content} document={iteration.document} />
             </div>
           </TabsContent>
         ))}
+
+        {/* Compare any two iterations */}
+        {completedIterations.length > 1 && (
+          <TabsContent value="compare">
+            <IterationDiff scriptId={script.id} iterations={completedIterations} />
+          </TabsContent>
+        )}
       </Tabs>
       
+      {/* Saved versions of the active iteration */}
+      <Dialog open={showHistory} onOpenChange={setShowHistory}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Iteration {activeIteration?.iterationNumber} history</DialogTitle>
+            <DialogDescription>
+              Every saved version of this iteration. Restoring a version saves it as a new one, so nothing is lost.
+            </DialogDescription>
+          </DialogHeader>
+          {activeIteration && (
+            <IterationHistory
+              scriptId={script.id}
+              iteration={activeIteration}
+              onRestore={(revisionId) => onRestoreRevision(activeIteration.id, revisionId)}
+              isRestoring={isLoading}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      {/* Extra instructions for a section rewrite */}
+      <Dialog open={!!sectionToRegenerate} onOpenChange={(open) => !open && setSectionToRegenerate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Regenerate "{sectionToRegenerate?.title}"</DialogTitle>
+            <DialogDescription>
+              Only this section is rewritten; the rest of the script is kept as it is and saved as a new iteration.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={sectionInstructions}
+            onChange={(e) => setSectionInstructions(e.target.value)}
+            placeholder="Optional: what should change? e.g. make it punchier, add a statistic"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSectionToRegenerate(null)}>Cancel</Button>
+            <Button onClick={handleRegenerateSection}>Regenerate</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
       <div className="flex justify-between pt-4 border-t">
         <Button variant="outline" onClick={onBack}>
           <ChevronLeft className="mr-2 h-4 w-4" />
@@ -1,13 +1,98 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScriptElement, ScriptIteration } from '@shared/schema';
+import { formatTimeRange, iterationDocument, serializeElement } from '@shared/script-document';
 
 interface ScriptPreviewProps {
   content: string;
+  // Stored document for the content, so section indexes match the server's
+  document?: ScriptIteration['document'];
+  highlights?: string[]; // passages to mark, e.g. repeated sentences
+  onRegenerateSection?: (index: number, title: string) => void;
 }
 
-export default function ScriptPreview({ content }: ScriptPreviewProps) {
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function Highlighted({ text, pattern }: { text: string; pattern?: RegExp }) {
+  if (!pattern) return <>{text}</>;
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // split() with a capture group puts the matches at odd indexes
+        index % 2 === 1
+          ? <mark key={index} className="bg-amber-100 text-amber-900 rounded-sm">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+function Element({ element, pattern }: { element: ScriptElement; pattern?: RegExp }) {
+  if (element.type === 'line') {
+    return (
+      <p>
+        {element.speaker && <span className="font-semibold">{element.speaker}: </span>}
+        <Highlighted text={element.text} pattern={pattern} />
+      </p>
+    );
+  }
+
+  const style = element.type === 'talent_note'
+    ? 'italic text-amber-700'
+    : element.type === 'on_screen_text'
+      ? 'text-blue-700'
+      : 'text-muted-foreground';
+  return <p className={`text-xs ${style}`}>{serializeElement(element)}</p>;
+}
+
+export default function ScriptPreview({ content, document = null, highlights = [], onRegenerateSection }: ScriptPreviewProps) {
+  const parsed = useMemo(() => iterationDocument({ content, document }), [content, document]);
+
+  const pattern = useMemo(() => {
+    if (highlights.length === 0) return undefined;
+
+    // Longest first so a passage wins over any shorter one it contains
+    const alternatives = [...highlights]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|');
+    return new RegExp(`(${alternatives})`, 'g');
+  }, [highlights]);
+
   return (
-    <div className="script-preview text-sm leading-relaxed">
-      {content}
+    <div className="script-preview text-sm leading-relaxed space-y-4">
+      {parsed.sections.map((section, index) => (
+        <section key={index} className="group space-y-1">
+          {(section.title || onRegenerateSection) && (
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="font-semibold">
+                {section.title}
+                {section.start !== undefined && (
+                  <span className="ml-2 text-xs font-normal text-primary">{formatTimeRange(section)}</span>
+                )}
+              </h4>
+              {onRegenerateSection && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  onClick={() => onRegenerateSection(index, section.title || 'Intro')}
+                >
+                  <RefreshCw className="mr-1 h-3 w-3" />
+                  Regenerate this section
+                </Button>
+              )}
+            </div>
+          )}
+          {section.elements.map((element, i) => (
+            <Element key={i} element={element} pattern={pattern} />
+          ))}
+        </section>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Check, Loader2, Minimize2, Maximize2, Smile, Sparkles, Wand2, X } from 'lucide-react';
+import { SelectionRewriteAction, SelectionRewriteRequest } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface SelectionEditorProps {
+  scriptId: number;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface Suggestion {
+  start: number;
+  end: number;
+  original: string;
+  text: string;
+}
+
+// Characters of surrounding script sent along so the rewrite fits its context
+const CONTEXT_CHARS = 1000;
+
+const ACTIONS: { action: SelectionRewriteAction; label: string; icon: React.ElementType }[] = [
+  { action: 'shorten', label: 'Shorten', icon: Minimize2 },
+  { action: 'expand', label: 'Expand', icon: Maximize2 },
+  { action: 'funnier', label: 'Punch up', icon: Smile },
+  { action: 'simplify', label: 'Simplify', icon: Sparkles },
+  { action: 'match_tone', label: 'Match tone', icon: Wand2 },
+];
+
+export default function SelectionEditor({ scriptId, value, onChange }: SelectionEditorProps) {
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+
+  const hasSelection = value.slice(selection.start, selection.end).trim().length > 0;
+
+  const rewriteMutation = useMutation({
+    mutationFn: async (action: SelectionRewriteAction) => {
+      const { start, end } = selection;
+      const request: SelectionRewriteRequest = {
+        action,
+        selection: value.slice(start, end),
+        before: value.slice(Math.max(0, start - CONTEXT_CHARS), start),
+        after: value.slice(end, end + CONTEXT_CHARS),
+      };
+      const res = await apiRequest('POST', `/api/scripts/${scriptId}/rewrite`, request);
+      const data: { suggestion: string } = await res.json();
+      return { start, end, original: request.selection, text: data.suggestion };
+    },
+    onSuccess: (result) => setSuggestion(result),
+    onError: (error) => {
+      toast({
+        title: 'Rewrite failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const trackSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+  };
+
+  const acceptSuggestion = () => {
+    if (!suggestion) return;
+    onChange(value.slice(0, suggestion.start) + suggestion.text + value.slice(suggestion.end));
+
+    // Leave the rewritten passage selected so it can be rewritten again
+    const end = suggestion.start + suggestion.text.length;
+    setSelection({ start: suggestion.start, end });
+    setSuggestion(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(suggestion.start, end);
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {ACTIONS.map(({ action, label, icon: Icon }) => (
+          <Button
+            key={action}
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            disabled={!hasSelection || !!suggestion || rewriteMutation.isPending}
+            onClick={() => rewriteMutation.mutate(action)}
+          >
+            {rewriteMutation.isPending && rewriteMutation.variables === action ? (
+              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            ) : (
+              <Icon className="mr-1 h-3 w-3" />
+            )}
+            {label}
+          </Button>
+        ))}
+        {!hasSelection && !suggestion && (
+          <span className="text-xs text-muted-foreground ml-1">Select a passage to rewrite it</span>
+        )}
+      </div>
+
+      {suggestion && (
+        <div className="border rounded-md p-3 text-sm space-y-2 bg-muted/30">
+          <div className="leading-relaxed whitespace-pre-wrap">
+            <del className="bg-red-100 text-red-900 rounded-sm">{suggestion.original}</del>
+            {' '}
+            <ins className="bg-green-100 text-green-900 no-underline rounded-sm">{suggestion.text}</ins>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" className="h-7" onClick={() => setSuggestion(null)}>
+              <X className="mr-1 h-3 w-3" />
+              Reject
+            </Button>
+            <Button size="sm" className="h-7" onClick={acceptSuggestion}>
+              <Check className="mr-1 h-3 w-3" />
+              Accept
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onSelect={trackSelection}
+        readOnly={!!suggestion || rewriteMutation.isPending}
+        className="w-full flex-1 font-mono text-sm leading-relaxed"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { ScriptIteration } from "@shared/schema";
+
+interface IterationStream {
+  content: string;
+  isStreaming: boolean;
+  error?: string;
+}
+
+// Follow an in-progress iteration over Server-Sent Events, accumulating the
+// script text as it is generated. onDone receives the finished iteration.
+export function useIterationStream(
+  scriptId: number | undefined,
+  iteration: ScriptIteration | undefined,
+  onDone?: (iteration: ScriptIteration) => void,
+): IterationStream {
+  const [stream, setStream] = useState<IterationStream>({ content: "", isStreaming: false });
+
+  const iterationId = iteration?.id;
+  const inProgress = iteration?.status === "in_progress";
+
+  useEffect(() => {
+    if (!scriptId || !iterationId || !inProgress) {
+      setStream({ content: "", isStreaming: false });
+      return;
+    }
+
+    const source = new EventSource(`/api/scripts/${scriptId}/iterations/${iterationId}/stream`, {
+      withCredentials: true,
+    });
+    setStream({ content: "", isStreaming: true });
+
+    source.addEventListener("snapshot", (event) => {
+      const { content } = JSON.parse((event as MessageEvent).data);
+      setStream({ content, isStreaming: true });
+    });
+
+    source.addEventListener("token", (event) => {
+      const { text } = JSON.parse((event as MessageEvent).data);
+      setStream(prev => ({ ...prev, content: prev.content + text }));
+    });
+
+    source.addEventListener("done", (event) => {
+      const finished: ScriptIteration = JSON.parse((event as MessageEvent).data);
+      source.close();
+      setStream({ content: finished.content, isStreaming: false });
+      onDone?.(finished);
+    });
+
+    // Server-sent "error" events carry a message; connection errors do not
+    source.addEventListener("error", (event) => {
+      const data = (event as MessageEvent).data;
+      source.close();
+      setStream(prev => ({
+        ...prev,
+        isStreaming: false,
+        error: data ? JSON.parse(data).message : "Lost connection to the generation stream",
+      }));
+    });
+
+    return () => source.close();
+    // onDone is left out so a new callback identity doesn't reconnect
+  }, [scriptId, iterationId, inProgress]);
+
+  return stream;
+}
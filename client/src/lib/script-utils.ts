@@ -1,4 +1,5 @@
 import { ScriptIteration, ScriptLength } from "@/types/script";
+import { parseScript, serializeElement } from "@shared/script-document";
 
 // Estimate script reading time in minutes
 export function estimateReadingTime(content: string): number {
@@ -41,82 +42,12 @@ export function analyzeImprovements(
     }));
 }
 
-// Check if a script has redundant content
-export function detectRedundancy(content: string): boolean {
-  const paragraphs = content.split('\n\n');
-  
-  // Look for repeated phrases across paragraphs
-  const phrases: Set<string> = new Set();
-  const significantPhrases = paragraphs.flatMap(para => {
-    // Extract phrases of 5+ words
-    const words = para.split(/\s+/);
-    const result: string[] = [];
-    
-    for (let i = 0; i <= words.length - 5; i++) {
-      const phrase = words.slice(i, i + 5).join(' ').toLowerCase();
-      if (phrase.length >= 20) { // Only check substantial phrases
-        result.push(phrase);
-      }
-    }
-    
-    return result;
-  });
-  
-  // Check for repeated significant phrases
-  for (const phrase of significantPhrases) {
-    if (phrases.has(phrase)) {
-      return true; // Redundancy detected
-    }
-    phrases.add(phrase);
-  }
-  
-  return false;
-}
-
 // Extract sections from script content
 export function extractSections(content: string): { title: string; content: string }[] {
-  const sections: { title: string; content: string }[] = [];
-  const lines = content.split('\n');
-  
-  let currentSection: { title: string; content: string } | null = null;
-  
-  for (const line of lines) {
-    // Check for section headers (all caps with optional timestamps)
-    const sectionMatch = line.match(/^([A-Z][A-Z\s\d]+:?)(\s+\[\d+:\d+\s*-\s*\d+:\d+\])?$/);
-    
-    if (sectionMatch) {
-      // If we have a current section, save it
-      if (currentSection) {
-        sections.push(currentSection);
-      }
-      
-      // Start a new section
-      currentSection = {
-        title: sectionMatch[1].trim(),
-        content: ''
-      };
-    } else if (currentSection) {
-      // Add content to current section
-      if (currentSection.content) {
-        currentSection.content += '\n' + line;
-      } else {
-        currentSection.content = line;
-      }
-    } else if (line.trim()) {
-      // Content before any section (intro)
-      currentSection = {
-        title: 'INTRO',
-        content: line
-      };
-    }
-  }
-  
-  // Add the last section
-  if (currentSection) {
-    sections.push(currentSection);
-  }
-  
-  return sections;
+  return parseScript(content).sections.map(section => ({
+    title: section.title || 'INTRO',
+    content: section.elements.map(serializeElement).join('\n'),
+  }));
 }
 
 // Generate mockup document preview content
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Redirect } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { FileText } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+import { Credentials, credentialsSchema } from '@shared/schema';
+
+interface CredentialsFormProps {
+  submitLabel: string;
+  onSubmit: (data: Credentials) => void;
+  isLoading: boolean;
+}
+
+function CredentialsForm({ submitLabel, onSubmit, isLoading }: CredentialsFormProps) {
+  const form = useForm<Credentials>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: {
+      username: '',
+      password: '',
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input {...field} autoComplete="username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" autoComplete="current-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? 'Please wait...' : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  // Already signed in, go straight to the wizard
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md card p-6 border rounded-lg shadow-sm bg-background space-y-6">
+        <div className="text-center space-y-2">
+          <FileText className="w-8 h-8 text-primary mx-auto" />
+          <h1 className="text-2xl font-semibold tracking-tight">AI Scriptwriting Agent</h1>
+          <p className="text-sm text-muted-foreground">Sign in to keep your scripts and drafts.</p>
+        </div>
+
+        <Tabs defaultValue="login" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Login</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="login" className="pt-4">
+            <CredentialsForm
+              submitLabel="Login"
+              onSubmit={(data) => loginMutation.mutate(data)}
+              isLoading={loginMutation.isPending}
+            />
+          </TabsContent>
+
+          <TabsContent value="register" className="pt-4">
+            <CredentialsForm
+              submitLabel="Create Account"
+              onSubmit={(data) => registerMutation.mutate(data)}
+              isLoading={registerMutation.isPending}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation, useParams } from 'wouter';
+import { Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 import AppLayout from '@/components/layout/AppLayout';
@@ -10,16 +12,38 @@ import ReviewStep from '@/components/scriptwriting/ReviewStep';
 import ExportStep from '@/components/scriptwriting/ExportStep';
 
 import { WizardStep, ScriptState } from '@/types/scriptTypes';
-import { CreateScriptInput, ExportSettings } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
+import { CreateScriptInput, ExportSettings, ImportScriptInput, IterationOverrides, Script, ScriptIteration } from '@shared/schema';
+import { hasRefinementPassesLeft } from '@shared/iteration-tree';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 
+const WIZARD_STEPS: WizardStep[] = ['input', 'generate', 'review', 'export'];
+
+const NEW_SCRIPT_STATE: ScriptState = {
+  iterations: [],
+  currentStep: 'input',
+  isLoading: false,
+};
+
+// Where to pick a script back up when the URL does not name a step
+function resumeStep(iterations: ScriptIteration[]): WizardStep {
+  const generating = iterations.some(it => it.status === 'in_progress');
+  return !generating && iterations.some(it => it.status === 'completed') ? 'review' : 'generate';
+}
+
+// The wizard for a new script at /, or an existing one at /scripts/:id/:step
 export default function Home() {
   const { toast } = useToast();
-  const [scriptState, setScriptState] = useState<ScriptState>({
-    iterations: [],
-    currentStep: 'input',
-    isLoading: false,
-  });
+  const [location, navigate] = useLocation();
+  const params = useParams<{ id?: string; step?: string }>();
+  const urlScriptId = params.id && /^\d+$/.test(params.id) ? Number(params.id) : undefined;
+  const urlStep = WIZARD_STEPS.find(step => step === params.step);
+  const [scriptState, setScriptState] = useState<ScriptState>(NEW_SCRIPT_STATE);
+  // A script opened from the URL stays on the step it was opened at until a
+  // generation is seen running, rather than jumping ahead to review
+  const holdStep = useRef(false);
+  const isOpeningScript = !!params.id && scriptState.script?.id !== urlScriptId;
+  // Iteration being produced by a section rewrite or a fork, selected once it completes
+  const [pendingIterationId, setPendingIterationId] = useState<number>();
 
   // Create script mutation
   const createScriptMutation = useMutation({
@@ -34,12 +58,7 @@ export default function Home() {
         iterations: [data.iteration],
         currentStep: 'generate',
       });
-      
-      // Poll for iteration completion
-      queryClient.prefetchQuery({
-        queryKey: ['/api/scripts', data.script.id],
-        refetchInterval: 2000,
-      });
+      queryClient.invalidateQueries({ queryKey: ['/api/scripts'] });
     },
     onError: (error) => {
       toast({
@@ -50,6 +69,31 @@ export default function Home() {
     },
   });
 
+  // Import an existing screenplay straight into review
+  const importScriptMutation = useMutation({
+    mutationFn: async (data: ImportScriptInput) => {
+      const res = await apiRequest('POST', '/api/scripts/import', data);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setScriptState({
+        ...scriptState,
+        script: data.script,
+        iterations: [data.iteration],
+        activeIterationId: data.iteration.id,
+        currentStep: 'review',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/scripts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import script',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Generate next iteration mutation
   const generateNextIterationMutation = useMutation({
     mutationFn: async () => {
@@ -62,14 +106,6 @@ export default function Home() {
         ...prev,
         iterations: [...prev.iterations, newIteration],
       }));
-      
-      // Poll for iteration completion
-      if (scriptState.script) {
-        queryClient.prefetchQuery({
-          queryKey: ['/api/scripts', scriptState.script.id],
-          refetchInterval: 2000,
-        });
-      }
     },
     onError: (error) => {
       toast({
@@ -94,6 +130,7 @@ export default function Home() {
           it.id === updatedIteration.id ? updatedIteration : it
         ),
       }));
+      invalidateRevisions(updatedIteration);
       toast({
         title: 'Success',
         description: 'Script updated successfully',
@@ -108,32 +145,258 @@ export default function Home() {
     },
   });
 
+  // Saving or restoring adds a revision to the iteration's history
+  const invalidateRevisions = (iteration: ScriptIteration) => {
+    queryClient.invalidateQueries({
+      queryKey: [`/api/scripts/${iteration.scriptId}/iterations/${iteration.id}/revisions`],
+    });
+  };
+
+  // Replace an iteration in local state with the server's copy
+  const replaceIteration = (updated: ScriptIteration) => {
+    setScriptState(prev => ({
+      ...prev,
+      iterations: prev.iterations.map(it => it.id === updated.id ? updated : it),
+    }));
+  };
+
+  // Cancel an in-progress iteration
+  const cancelIterationMutation = useMutation({
+    mutationFn: async (iterationId: number) => {
+      if (!scriptState.script) throw new Error("No active script");
+      const res = await apiRequest('POST', `/api/scripts/${scriptState.script.id}/iterations/${iterationId}/cancel`);
+      return res.json();
+    },
+    onSuccess: replaceIteration,
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to cancel iteration',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Retry a failed or cancelled iteration
+  const retryIterationMutation = useMutation({
+    mutationFn: async (iterationId: number) => {
+      if (!scriptState.script) throw new Error("No active script");
+      const res = await apiRequest('POST', `/api/scripts/${scriptState.script.id}/iterations/${iterationId}/retry`);
+      return res.json();
+    },
+    onSuccess: (iteration) => {
+      replaceIteration(iteration);
+      goToStep('generate');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to retry iteration',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Bring back an earlier saved version of an iteration
+  const restoreRevisionMutation = useMutation({
+    mutationFn: async ({ iterationId, revisionId }: { iterationId: number, revisionId: number }) => {
+      if (!scriptState.script) throw new Error("No active script");
+      const res = await apiRequest(
+        'POST',
+        `/api/scripts/${scriptState.script.id}/iterations/${iterationId}/revisions/${revisionId}/restore`,
+      );
+      return res.json();
+    },
+    onSuccess: (restored: ScriptIteration) => {
+      replaceIteration(restored);
+      invalidateRevisions(restored);
+      toast({
+        title: 'Version restored',
+        description: `Iteration ${restored.iterationNumber} was restored to an earlier version`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore version',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Rewrite one section of an iteration into a new iteration
+  const regenerateSectionMutation = useMutation({
+    mutationFn: async ({ iterationId, sectionIndex, instructions }: { iterationId: number, sectionIndex: number, instructions?: string }) => {
+      if (!scriptState.script) throw new Error("No active script");
+      const res = await apiRequest(
+        'POST',
+        `/api/scripts/${scriptState.script.id}/iterations/${iterationId}/sections/${sectionIndex}/regenerate`,
+        { instructions },
+      );
+      return res.json();
+    },
+    onSuccess: (newIteration: ScriptIteration) => {
+      setScriptState(prev => ({
+        ...prev,
+        iterations: [...prev.iterations, newIteration],
+      }));
+      setPendingIterationId(newIteration.id);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to regenerate section',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Branch off any completed iteration with different settings
+  const forkIterationMutation = useMutation({
+    mutationFn: async ({ iterationId, overrides }: { iterationId: number, overrides: IterationOverrides }) => {
+      if (!scriptState.script) throw new Error("No active script");
+      const res = await apiRequest(
+        'POST',
+        `/api/scripts/${scriptState.script.id}/iterations/${iterationId}/fork`,
+        overrides,
+      );
+      return res.json();
+    },
+    onSuccess: (newIteration: ScriptIteration) => {
+      setScriptState(prev => ({
+        ...prev,
+        iterations: [...prev.iterations, newIteration],
+      }));
+      setPendingIterationId(newIteration.id);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fork iteration',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Fetch script with iterations (used for polling)
-  const { data: scriptData } = useQuery({
-    queryKey: scriptState.script ? ['/api/scripts', scriptState.script.id] : null,
+  const isGenerating = scriptState.iterations.some(it => it.status === 'in_progress');
+  const { data: scriptData } = useQuery<{ script: Script; iterations: ScriptIteration[] }>({
+    queryKey: [`/api/scripts/${scriptState.script?.id}`],
     enabled: !!scriptState.script,
-    refetchInterval: scriptState.currentStep === 'generate' ? 2000 : false,
-    onSuccess: (data) => {
-      // Update local state with fetched data
-      setScriptState(prev => {
-        const allComplete = data.iterations.every((it: any) => it.status === 'completed' || it.status === 'failed');
-        
-        // Auto advance to review step when all iterations are complete
-        const nextStep = prev.currentStep === 'generate' && 
-                        allComplete && 
-                        data.iterations.length === data.script.iterations
-                        ? 'review' 
-                        : prev.currentStep;
-        
-        return {
-          ...prev,
+    refetchInterval: scriptState.currentStep === 'generate' || pendingIterationId || isGenerating ? 2000 : false,
+  });
+
+  // Update local state with fetched data
+  useEffect(() => {
+    if (!scriptData) return;
+
+    setScriptState(prev => {
+      const allComplete = scriptData.iterations.every(it => it.status !== 'in_progress');
+      if (!allComplete || prev.iterations.some(it => it.status === 'in_progress')) {
+        holdStep.current = false;
+      }
+      
+      // Auto advance to review step when all iterations are complete
+      const nextStep = prev.currentStep === 'generate' && 
+                      allComplete && 
+                      !holdStep.current &&
+                      !hasRefinementPassesLeft(scriptData.script, scriptData.iterations)
+                      ? 'review' 
+                      : prev.currentStep;
+      
+      return {
+        ...prev,
+        script: scriptData.script,
+        iterations: scriptData.iterations,
+        currentStep: nextStep,
+      };
+    });
+  }, [scriptData]);
+
+  // Load the script named in the URL, after a refresh or from a shared link,
+  // and start over with a new script when the URL no longer names one
+  useEffect(() => {
+    if (params.id && !urlScriptId) {
+      toast({
+        title: 'Error',
+        description: `There is no script "${params.id}"`,
+        variant: 'destructive',
+      });
+      navigate('/', { replace: true });
+      return;
+    }
+    if (!urlScriptId) {
+      if (scriptState.script) setScriptState(NEW_SCRIPT_STATE);
+      return;
+    }
+    if (urlScriptId === scriptState.script?.id) return;
+
+    apiRequest('GET', `/api/scripts/${urlScriptId}`)
+      .then(res => res.json())
+      .then((data: { script: Script; iterations: ScriptIteration[] }) => {
+        queryClient.setQueryData([`/api/scripts/${data.script.id}`], data);
+        holdStep.current = true;
+        setScriptState({
           script: data.script,
           iterations: data.iterations,
-          currentStep: nextStep,
-        };
+          currentStep: urlStep ?? resumeStep(data.iterations),
+          isLoading: false,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to open script',
+          variant: 'destructive',
+        });
+        navigate('/', { replace: true });
       });
-    },
-  });
+  }, [params.id]);
+
+  // Browser back and forward move between steps
+  useEffect(() => {
+    if (urlStep && urlScriptId === scriptState.script?.id && urlStep !== scriptState.currentStep) {
+      goToStep(urlStep);
+    }
+  }, [urlStep]);
+
+  // Keep the URL on the current script and step
+  useEffect(() => {
+    if (!scriptState.script) return;
+
+    const path = `/scripts/${scriptState.script.id}/${scriptState.currentStep}`;
+    if (location !== path) {
+      // A URL without a valid step is corrected rather than kept in history
+      navigate(path, { replace: urlScriptId === scriptState.script.id && !urlStep });
+    }
+  }, [scriptState.script?.id, scriptState.currentStep]);
+
+  // Show a rewritten section or a new branch as soon as it is ready
+  useEffect(() => {
+    const pending = scriptState.iterations.find(it => it.id === pendingIterationId);
+    if (!pending || pending.status === 'in_progress') return;
+
+    setPendingIterationId(undefined);
+    if (pending.status === 'completed') {
+      setScriptState(prev => ({ ...prev, activeIterationId: pending.id }));
+      toast({
+        title: 'New iteration ready',
+        description: `Saved as iteration ${pending.iterationNumber}`,
+      });
+    } else {
+      toast({
+        title: 'Error',
+        description: `Failed to generate iteration ${pending.iterationNumber}`,
+        variant: 'destructive',
+      });
+    }
+  }, [scriptState.iterations, pendingIterationId]);
+
+  // A streamed iteration finished, refresh instead of waiting for the next poll
+  const handleIterationComplete = (iteration: ScriptIteration) => {
+    replaceIteration(iteration);
+    queryClient.invalidateQueries({ queryKey: [`/api/scripts/${iteration.scriptId}`] });
+  };
 
   // Export script handler
   const handleExport = async (settings: ExportSettings) => {
@@ -142,30 +405,27 @@ export default function Home() {
     try {
       setScriptState(prev => ({ ...prev, isLoading: true }));
       
-      // Create a form to handle file download
-      const form = document.createElement('form');
-      form.method = 'POST';
-      form.action = `/api/scripts/${scriptState.script!.id}/export`;
-      form.target = '_blank';
-      
-      // Add settings as hidden form fields
-      for (const [key, value] of Object.entries(settings)) {
-        if (value !== undefined) {
-          const input = document.createElement('input');
-          input.type = 'hidden';
-          input.name = key;
-          input.value = typeof value === 'object' ? JSON.stringify(value) : String(value);
-          form.appendChild(input);
-        }
-      }
+      // Leave out blank optional fields such as an empty email
+      const payload = Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined && value !== '')
+      );
+      const res = await apiRequest('POST', `/api/scripts/${scriptState.script.id}/export`, payload);
       
-      document.body.appendChild(form);
-      form.submit();
-      document.body.removeChild(form);
+      // Download under the filename the server chose
+      const disposition = res.headers.get('Content-Disposition') ?? '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? 'script';
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
       
       toast({
-        title: 'Export Started',
-        description: 'Your script is being exported',
+        title: 'Export Complete',
+        description: `Downloaded ${filename}`,
       });
     } catch (error) {
       toast({
@@ -188,10 +448,14 @@ export default function Home() {
     createScriptMutation.mutate(data);
   };
 
+  // Handle a screenplay imported from the input step
+  const handleImportScript = (data: ImportScriptInput) => {
+    importScriptMutation.mutate(data);
+  };
+
   // Get step number for progress display
   const getStepNumber = (step: WizardStep): number => {
-    const steps: WizardStep[] = ['input', 'generate', 'review', 'export'];
-    return steps.indexOf(step) + 1;
+    return WIZARD_STEPS.indexOf(step) + 1;
   };
 
   // Current active step component
@@ -201,7 +465,9 @@ export default function Home() {
         return (
           <InputStep 
             onSubmit={handleCreateScript} 
+            onImport={handleImportScript}
             isLoading={createScriptMutation.isPending} 
+            isImporting={importScriptMutation.isPending}
           />
         );
       case 'generate':
@@ -212,6 +478,9 @@ export default function Home() {
             onBack={() => goToStep('input')}
             onGenerateNext={() => generateNextIterationMutation.mutate()}
             onSkipToReview={() => goToStep('review')}
+            onIterationComplete={handleIterationComplete}
+            onCancelIteration={(id) => cancelIterationMutation.mutate(id)}
+            onRetryIteration={(id) => retryIterationMutation.mutate(id)}
             isLoading={generateNextIterationMutation.isPending}
           />
         );
@@ -223,9 +492,12 @@ export default function Home() {
             activeIterationId={scriptState.activeIterationId}
             onSelectIteration={(id) => setScriptState(prev => ({ ...prev, activeIterationId: id }))}
             onUpdateIteration={(id, content) => updateIterationMutation.mutate({ iterationId: id, content })}
+            onRegenerateSection={(iterationId, sectionIndex, instructions) => regenerateSectionMutation.mutate({ iterationId, sectionIndex, instructions })}
+            onRestoreRevision={(iterationId, revisionId) => restoreRevisionMutation.mutate({ iterationId, revisionId })}
+            onForkIteration={(iterationId, overrides) => forkIterationMutation.mutate({ iterationId, overrides })}
             onBack={() => goToStep('generate')}
             onContinue={() => goToStep('export')}
-            isLoading={updateIterationMutation.isPending}
+            isLoading={updateIterationMutation.isPending || restoreRevisionMutation.isPending}
           />
         );
       case 'export':
@@ -233,6 +505,7 @@ export default function Home() {
           <ExportStep 
             script={scriptState.script}
             iterations={scriptState.iterations}
+            activeIterationId={scriptState.activeIterationId}
             onBack={() => goToStep('review')}
             onExport={handleExport}
             isLoading={scriptState.isLoading}
@@ -245,16 +518,24 @@ export default function Home() {
 
   return (
     <AppLayout>
-      <div className="mb-10">
-        <ProgressSteps 
-          currentStep={getStepNumber(scriptState.currentStep)} 
-          totalSteps={4} 
-        />
-      </div>
-      
-      <div className="card p-6 border rounded-lg shadow-sm bg-background">
-        {renderActiveStep()}
-      </div>
+      {isOpeningScript ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="mb-10">
+            <ProgressSteps 
+              currentStep={getStepNumber(scriptState.currentStep)} 
+              totalSteps={4} 
+            />
+          </div>
+          
+          <div className="card p-6 border rounded-lg shadow-sm bg-background">
+            {renderActiveStep()}
+          </div>
+        </>
+      )}
     </AppLayout>
   );
 }
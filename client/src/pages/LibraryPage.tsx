@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Link, useLocation, useSearch } from 'wouter';
+import { ChevronLeft, ChevronRight, Clock, Layers, Loader2, Plus, Search } from 'lucide-react';
+
+import AppLayout from '@/components/layout/AppLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AIModelInfo, IterationStatus, LibrarySort, ScriptLibraryPage } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { formatTimeFromSeconds } from '@/lib/utils';
+import { toneOptions } from '@/types/scriptTypes';
+
+const ALL = 'all';
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_OPTIONS: { value: IterationStatus; label: string }[] = [
+  { value: 'completed', label: 'Completed' },
+  { value: 'in_progress', label: 'Generating' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const SORT_OPTIONS: { value: LibrarySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'longest', label: 'Longest first' },
+  { value: 'shortest', label: 'Shortest first' },
+];
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'default',
+  in_progress: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+// The user's scripts with search, filters, sorting and pagination. Filters
+// live in the query string so reopening a script and coming back keeps them.
+export default function LibraryPage() {
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const q = params.get('q') ?? '';
+  const page = Math.max(1, parseInt(params.get('page') ?? '1', 10) || 1);
+  const [searchInput, setSearchInput] = useState(q);
+
+  const { data: models = [] } = useQuery<AIModelInfo[]>({
+    queryKey: ['/api/models'],
+  });
+
+  const queryString = params.toString();
+  const { data, isLoading, isFetching, error } = useQuery<ScriptLibraryPage>({
+    queryKey: ['/api/scripts', queryString],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/scripts?${queryString}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    refetchOnMount: 'always',
+  });
+
+  // Any filter change starts over from the first page
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(queryString);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value && value !== ALL) next.set(key, value);
+      else next.delete(key);
+    }
+    if (!('page' in changes)) next.delete('page');
+    navigate(`/library${next.toString() ? `?${next}` : ''}`, { replace: true });
+  };
+
+  useEffect(() => {
+    if (searchInput.trim() === q) return;
+    const timer = setTimeout(() => updateParams({ q: searchInput.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const modelName = (id: string) => models.find(model => model.id === id)?.label ?? id;
+  const toneLabel = (tone: string) => toneOptions.find(option => option.value === tone)?.label ?? tone;
+
+  return (
+    <AppLayout>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Script Library</h1>
+          <p className="text-sm text-muted-foreground">
+            {data ? `${data.total} script${data.total === 1 ? '' : 's'}` : 'Your scripts'}
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/">
+            <Plus className="mr-2 h-4 w-4" />
+            New Script
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search titles, instructions and script text"
+            className="pl-9"
+          />
+        </div>
+
+        <Select value={params.get('tone') ?? ALL} onValueChange={(value) => updateParams({ tone: value })}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tones</SelectItem>
+            {toneOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={params.get('aiModel') ?? ALL} onValueChange={(value) => updateParams({ aiModel: value })}>
+          <SelectTrigger className="md:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All models</SelectItem>
+            {models.map((model) => (
+              <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={params.get('status') ?? ALL} onValueChange={(value) => updateParams({ status: value })}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any status</SelectItem>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={params.get('sort') ?? 'newest'} onValueChange={(value) => updateParams({ sort: value === 'newest' ? undefined : value })}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="py-16 text-center text-sm text-destructive">
+          {error instanceof Error ? error.message : 'Failed to load scripts'}
+        </p>
+      ) : !data?.scripts.length ? (
+        <p className="py-16 text-center text-sm text-muted-foreground">
+          {params.toString() ? 'No scripts match these filters.' : 'You have not written any scripts yet.'}
+        </p>
+      ) : (
+        <div className={`grid gap-4 md:grid-cols-2 lg:grid-cols-3 ${isFetching ? 'opacity-60' : ''}`}>
+          {data.scripts.map((script) => (
+            <Link
+              key={script.id}
+              href={`/scripts/${script.id}/review`}
+              className="block rounded-lg border bg-background p-4 shadow-sm transition-colors hover:border-primary"
+            >
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <h2 className="font-medium line-clamp-2">{script.title}</h2>
+                <Badge variant={STATUS_VARIANTS[script.status] ?? 'outline'} className="shrink-0">
+                  {STATUS_OPTIONS.find(option => option.value === script.status)?.label ?? script.status}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground line-clamp-2 mb-3">{script.instructions}</p>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                <span>{toneLabel(script.tone)}</span>
+                <span>{modelName(script.aiModel)}</span>
+                <span className="flex items-center gap-1">
+                  <Layers className="h-3 w-3" />
+                  {script.iterationCount} iteration{script.iterationCount === 1 ? '' : 's'}
+                </span>
+                {script.estimatedDuration !== null && (
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {formatTimeFromSeconds(script.estimatedDuration)}
+                  </span>
+                )}
+                <span className="ml-auto">{new Date(script.createdAt).toLocaleDateString()}</span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {data && totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-8">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => updateParams({ page: page - 1 > 1 ? String(page - 1) : undefined })}
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => updateParams({ page: String(page + 1) })}
+          >
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </AppLayout>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams, useSearch } from 'wouter';
+import { FlipHorizontal, Loader2, Maximize, Minus, Pause, Play, Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Script, ScriptIteration } from '@shared/schema';
+import { iterationDocument } from '@shared/script-document';
+import { latestCompletedIteration } from '@shared/iteration-tree';
+import {
+  estimateWordsPerMinute,
+  MAX_WORDS_PER_MINUTE,
+  MIN_WORDS_PER_MINUTE,
+  teleprompterSections,
+  teleprompterWordCount,
+} from '@shared/teleprompter';
+
+const SPEED_STEP = 10; // words per minute
+const FONT_SIZES = [32, 40, 48, 56, 64, 80, 96];
+
+const KEYBOARD_HELP = 'Space play/pause · ↑↓ speed · ←→ PgUp/PgDn jump · Home restart · +/− size · M mirror · F fullscreen';
+
+// Show [PAUSE] and [EMPHASIS] cues in a different color from the spoken words
+function CueLine({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(\[(?:PAUSE|EMPHASIS)\])/).map((part, index) =>
+        /^\[(PAUSE|EMPHASIS)\]$/.test(part)
+          ? <span key={index} className="text-yellow-400">{part}</span>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+// Fullscreen teleprompter for a script's spoken lines. Opens on the latest
+// completed iteration unless ?iteration=<id> picks another draft.
+export default function TeleprompterPage() {
+  const { id } = useParams<{ id: string }>();
+  const iterationParam = new URLSearchParams(useSearch()).get('iteration');
+
+  const { data, isLoading, error } = useQuery<{ script: Script; iterations: ScriptIteration[] }>({
+    queryKey: [`/api/scripts/${id}`],
+  });
+
+  const iteration = useMemo(() => {
+    const iterations = data?.iterations ?? [];
+    return iterations.find(it => it.status === 'completed' && it.id.toString() === iterationParam)
+      ?? latestCompletedIteration(iterations);
+  }, [data, iterationParam]);
+
+  const document = useMemo(() => iteration ? iterationDocument(iteration) : undefined, [iteration]);
+  const sections = useMemo(() => document ? teleprompterSections(document, true) : [], [document]);
+  const wordCount = useMemo(() => teleprompterWordCount(sections), [sections]);
+
+  const [playing, setPlaying] = useState(false);
+  const [wordsPerMinute, setWordsPerMinute] = useState<number>();
+  const [fontSize, setFontSize] = useState(56);
+  const [mirrored, setMirrored] = useState(false);
+
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const positionRef = useRef(0);
+
+  // Start at the pace the script's own timestamps imply
+  useEffect(() => {
+    if (document && wordsPerMinute === undefined) setWordsPerMinute(estimateWordsPerMinute(document));
+  }, [document, wordsPerMinute]);
+
+  const pace = wordsPerMinute ?? MIN_WORDS_PER_MINUTE;
+
+  // Scroll so the text passes the reading line at the chosen words per minute
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    const text = textRef.current;
+    if (!playing || !scroller || !text || wordCount === 0) return;
+
+    // Only the lines count, not the padding that lets the first and last reach the reading line
+    const { paddingTop, paddingBottom } = getComputedStyle(text);
+    const linesHeight = text.offsetHeight - parseFloat(paddingTop) - parseFloat(paddingBottom);
+    const pixelsPerSecond = linesHeight / wordCount * pace / 60;
+    positionRef.current = scroller.scrollTop;
+    let previous: number | undefined;
+    let frame = 0;
+
+    const step = (time: number) => {
+      if (previous !== undefined) {
+        positionRef.current += pixelsPerSecond * (time - previous) / 1000;
+        scroller.scrollTop = positionRef.current;
+      }
+      previous = time;
+
+      if (positionRef.current >= scroller.scrollHeight - scroller.clientHeight) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, pace, wordCount, fontSize]);
+
+  const jump = useCallback((direction: 1 | -1) => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    positionRef.current = Math.max(0, scroller.scrollTop + direction * scroller.clientHeight * 0.4);
+    scroller.scrollTop = positionRef.current;
+  }, []);
+
+  const restart = useCallback(() => {
+    setPlaying(false);
+    positionRef.current = 0;
+    if (scrollerRef.current) scrollerRef.current.scrollTop = 0;
+  }, []);
+
+  const changeSpeed = useCallback((delta: number) => {
+    setWordsPerMinute(current =>
+      Math.min(MAX_WORDS_PER_MINUTE, Math.max(MIN_WORDS_PER_MINUTE, (current ?? MIN_WORDS_PER_MINUTE) + delta)));
+  }, []);
+
+  const changeFontSize = useCallback((direction: 1 | -1) => {
+    setFontSize(current => {
+      const index = FONT_SIZES.indexOf(current) + direction;
+      return FONT_SIZES[Math.min(FONT_SIZES.length - 1, Math.max(0, index))];
+    });
+  }, []);
+
+  const toggleFullscreen = useCallback(() => {
+    if (window.document.fullscreenElement) {
+      window.document.exitFullscreen();
+    } else {
+      window.document.documentElement.requestFullscreen?.();
+    }
+  }, []);
+
+  // Keyboard and presentation remote controls; remotes send the arrow and page keys
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+      switch (event.key) {
+        case ' ':
+        case 'Enter':
+        case 'k':
+          setPlaying(current => !current);
+          break;
+        case 'ArrowUp':
+          changeSpeed(SPEED_STEP);
+          break;
+        case 'ArrowDown':
+          changeSpeed(-SPEED_STEP);
+          break;
+        case 'ArrowLeft':
+        case 'PageUp':
+          jump(-1);
+          break;
+        case 'ArrowRight':
+        case 'PageDown':
+          jump(1);
+          break;
+        case 'Home':
+          restart();
+          break;
+        case '+':
+        case '=':
+          changeFontSize(1);
+          break;
+        case '-':
+          changeFontSize(-1);
+          break;
+        case 'm':
+          setMirrored(current => !current);
+          break;
+        case 'f':
+          toggleFullscreen();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [changeSpeed, jump, restart, changeFontSize, toggleFullscreen]);
+
+  if (isLoading) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black">
+        <Loader2 className="h-8 w-8 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (error || !data || !iteration) {
+    return (
+      <div className="fixed inset-0 flex flex-col items-center justify-center gap-4 bg-black text-white">
+        <p>{error ? 'Script not found.' : 'This script has no completed draft yet.'}</p>
+        <Button variant="secondary" asChild>
+          <Link href="/library">Back to scripts</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black text-white">
+      <div ref={scrollerRef} className="h-full overflow-y-auto [scrollbar-width:none]">
+        <div
+          ref={textRef}
+          className="mx-auto max-w-5xl px-12 py-[45vh] font-sans leading-snug"
+          style={{ fontSize, transform: mirrored ? 'scaleX(-1)' : undefined }}
+        >
+          {wordCount === 0 && <p className="text-center text-gray-400">This draft has no spoken lines.</p>}
+          {sections.map((section, sectionIndex) => (
+            <div key={sectionIndex} className="mb-[1.5em]">
+              {section.title && (
+                <div className="mb-[0.5em] text-[0.4em] uppercase tracking-widest text-gray-500">{section.title}</div>
+              )}
+              {section.lines.map((line, lineIndex) => (
+                <p key={lineIndex} className="mb-[0.6em]"><CueLine text={line} /></p>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Reading line the talent keeps their eyes on */}
+      <div className="pointer-events-none absolute inset-x-0 top-[45vh] border-t-2 border-red-500/60" />
+
+      <div
+        className={`absolute inset-x-0 bottom-0 flex flex-wrap items-center justify-center gap-2 bg-black/80 p-3 transition-opacity ${
+          playing ? 'opacity-0 hover:opacity-100' : 'opacity-100'
+        }`}
+      >
+        <Button size="sm" variant="secondary" onClick={() => setPlaying(current => !current)}>
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button size="sm" variant="secondary" onClick={restart} title="Restart">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => changeSpeed(-SPEED_STEP)} title="Slower">
+          <Minus className="h-4 w-4" />
+        </Button>
+        <span className="w-24 text-center text-sm tabular-nums">{pace} wpm</span>
+        <Button size="sm" variant="secondary" onClick={() => changeSpeed(SPEED_STEP)} title="Faster">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => changeFontSize(-1)} title="Smaller text">A−</Button>
+        <Button size="sm" variant="secondary" onClick={() => changeFontSize(1)} title="Larger text">A+</Button>
+        <Button
+          size="sm"
+          variant={mirrored ? 'default' : 'secondary'}
+          onClick={() => setMirrored(current => !current)}
+          title="Mirror for a beam-splitter prompter"
+        >
+          <FlipHorizontal className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="secondary" onClick={toggleFullscreen} title="Fullscreen">
+          <Maximize className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="secondary" asChild title="Close">
+          <Link href={`/scripts/${id}/review`}><X className="h-4 w-4" /></Link>
+        </Button>
+        <span className="hidden w-full text-center text-xs text-gray-400 md:block">
+          {data.script.title} · Iteration {iteration.iterationNumber} · {KEYBOARD_HELP}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -27,11 +27,14 @@ export type ScriptTone =
   | 'conversational'
   | 'inspirational';
 
-export type AIModel = 
-  | 'gpt-4'
-  | 'gpt-3.5'
-  | 'claude'
-  | 'grok';
+export const toneOptions: { value: ScriptTone; label: string }[] = [
+  { value: 'professional', label: 'Professional' },
+  { value: 'casual', label: 'Casual' },
+  { value: 'educational', label: 'Educational' },
+  { value: 'entertaining', label: 'Entertaining' },
+  { value: 'conversational', label: 'Conversational' },
+  { value: 'inspirational', label: 'Inspirational' },
+];
 
 export interface IterationProgressInfo {
   iterationNumber: number;
@@ -56,7 +59,7 @@ export interface RefinementOption {
 }
 
 export const exportFormSchema = z.object({
-  format: z.enum(['google_docs', 'word', 'text', 'markdown']),
+  format: z.enum(['google_docs', 'word', 'odt', 'pdf', 'text', 'markdown', 'teleprompter', 'srt', 'vtt', 'fountain']),
   includeMetadata: z.boolean().default(true),
   includeTimestamps: z.boolean().default(true),
   includeSections: z.boolean().default(true),
@@ -64,6 +67,9 @@ export const exportFormSchema = z.object({
   enableSharing: z.boolean().default(true),
   sendEmail: z.boolean().default(false),
   email: z.string().email().optional().or(z.literal('')),
+  iterationId: z.number().optional(),
+  allIterations: z.boolean().default(false),
+  pdfLayout: z.enum(['av', 'shooting']).default('av'),
 });
 
 export type ExportFormValues = z.infer<typeof exportFormSchema>;
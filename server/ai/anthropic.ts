@@ -1,151 +1,175 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { ScriptDocument } from "@shared/schema";
+import {
+  buildScriptPrompts,
+  buildSectionPrompts,
+  buildSelectionPrompts,
+  type AIProvider,
+  type ScriptAnalysis,
+  type ScriptComparison,
+  type ScriptGenerationOptions,
+  type SectionRewriteOptions,
+  type SelectionRewriteOptions,
+} from "./provider";
+import { computeScriptMetrics } from "../analysis/metrics";
+import { measureRedundancyReduction } from "../analysis/redundancy";
+import { SCRIPT_JSON_SCHEMA, generateValidatedScript, parseJsonResponse, retryPrompt } from "./structured";
 
 // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || "dummy-key",
-});
-
-interface ScriptGenerationOptions {
-  title: string;
-  instructions: string;
-  structure?: string;
-  tone: string;
-  length: number; // 1-3 (short, medium, long)
-  previousIterations?: string[];
-  reduceRedundancy?: boolean;
-  enhanceClarity?: boolean;
-  improveEngagement?: boolean;
-}
+const DEFAULT_MODEL = "claude-3-7-sonnet-20250219";
 
-export async function generateScript(options: ScriptGenerationOptions): Promise<string> {
-  const {
-    title,
-    instructions,
-    structure,
-    tone,
-    length,
-    previousIterations = [],
-    reduceRedundancy = true,
-    enhanceClarity = true,
-    improveEngagement = true,
-  } = options;
-
-  const lengthDescription = length === 1 ? "short (around 3 minutes)" : 
-                           length === 2 ? "medium (around 7 minutes)" : 
-                           "long (around 12 minutes)";
-
-  // Define system prompt based on iteration
-  let systemPrompt = "You are an expert YouTube scriptwriter.";
-  
-  if (previousIterations.length === 0) {
-    // First iteration
-    systemPrompt += ` Create a ${lengthDescription} YouTube script based on the instructions provided. Use appropriate formatting with sections, timestamps, and speaker notes.`;
-  } else {
-    // Refinement iterations
-    systemPrompt += " Refine the previous script version to improve quality:";
-    
-    if (reduceRedundancy) {
-      systemPrompt += "\n- Reduce redundancy and repetition";
-    }
-    
-    if (enhanceClarity) {
-      systemPrompt += "\n- Enhance clarity and coherence";
-    }
-    
-    if (improveEngagement) {
-      systemPrompt += "\n- Improve engagement and flow";
-    }
-    
-    systemPrompt += "\n\nMaintain the same general structure but improve the content.";
-  }
+let client: Anthropic | undefined;
 
-  // Create user message
-  let userMessage = `Title: ${title}\n\nInstructions: ${instructions}\n\nTone: ${tone}\n\nDesired Length: ${lengthDescription}`;
-  
-  if (structure) {
-    userMessage += `\n\nStructure: ${structure}`;
+// Create the client on first use so a missing key fails with a clear message
+function getClient(): Anthropic {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new Error("ANTHROPIC_API_KEY is not set");
   }
+  client ??= new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  return client;
+}
 
-  // Add previous iterations for context if this is a refinement
-  if (previousIterations.length > 0) {
-    userMessage += `\n\nPrevious iteration to refine:\n\n${previousIterations[previousIterations.length - 1]}`;
-  }
+// Concatenate the text blocks of a message response
+function getText(response: Anthropic.Message): string {
+  return response.content
+    .map(block => block.type === 'text' ? block.text : '')
+    .join('');
+}
+
+export async function generateScript(options: ScriptGenerationOptions, model: string = DEFAULT_MODEL): Promise<string> {
+  const { system, user } = buildScriptPrompts(options);
 
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userMessage }],
+    const response = await getClient().messages.create({
+      model,
+      system,
+      messages: [{ role: 'user', content: user }],
       max_tokens: 4000,
-    });
+    }, { signal: options.signal });
 
-    return response.content[0].text;
+    return getText(response);
   } catch (error) {
     console.error("Error generating script with Anthropic:", error);
     throw new Error(`Failed to generate script: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export async function analyzeScript(script: string): Promise<{
-  wordCount: number;
-  estimatedDuration: number;
-  readabilityScore?: number;
-}> {
+export async function* streamScript(options: ScriptGenerationOptions, model: string = DEFAULT_MODEL): AsyncGenerator<string> {
+  const { system, user } = buildScriptPrompts(options);
+
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      system: "Analyze the YouTube script and provide metrics as JSON with the following keys: wordCount (number), estimatedDuration (in seconds), readabilityScore (1-10 scale with 10 being most readable).",
-      max_tokens: 1024,
-      messages: [
-        { role: 'user', content: script }
-      ],
-    });
+    const stream = getClient().messages.stream({
+      model,
+      system,
+      messages: [{ role: 'user', content: user }],
+      max_tokens: 4000,
+    }, { signal: options.signal });
 
-    // Try to parse the response as JSON
-    const jsonMatch = response.content[0].text.match(/\{.*\}/s);
-    if (jsonMatch) {
-      try {
-        const result = JSON.parse(jsonMatch[0]);
-        return {
-          wordCount: result.wordCount || script.split(/\s+/).length,
-          estimatedDuration: result.estimatedDuration || Math.round(script.split(/\s+/).length / 150 * 60),
-          readabilityScore: result.readabilityScore,
-        };
-      } catch (parseError) {
-        console.error("Error parsing JSON from Anthropic response:", parseError);
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
       }
     }
-    
-    // Fallback to basic analysis
-    const wordCount = script.split(/\s+/).length;
-    const estimatedDuration = Math.round(wordCount / 150 * 60); // 150 words per minute estimate
-    
-    return {
-      wordCount,
-      estimatedDuration,
-    };
   } catch (error) {
-    console.error("Error analyzing script with Anthropic:", error);
-    
-    // Basic fallback analysis
-    const wordCount = script.split(/\s+/).length;
-    const estimatedDuration = Math.round(wordCount / 150 * 60);
-    
-    return {
-      wordCount,
-      estimatedDuration,
-    };
+    console.error("Error streaming script with Anthropic:", error);
+    throw new Error(`Failed to generate script: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function rewriteSection(options: SectionRewriteOptions, model: string = DEFAULT_MODEL): Promise<string> {
+  const { system, user } = buildSectionPrompts(options);
+
+  try {
+    const response = await getClient().messages.create({
+      model,
+      system,
+      messages: [{ role: 'user', content: user }],
+      max_tokens: 2000,
+    }, { signal: options.signal });
+
+    return getText(response);
+  } catch (error) {
+    console.error("Error rewriting section with Anthropic:", error);
+    throw new Error(`Failed to rewrite section: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function rewriteSelection(options: SelectionRewriteOptions, model: string = DEFAULT_MODEL): Promise<string> {
+  const { system, user } = buildSelectionPrompts(options);
+
+  try {
+    const response = await getClient().messages.create({
+      model,
+      system,
+      messages: [{ role: 'user', content: user }],
+      max_tokens: 1500,
+    }, { signal: options.signal });
+
+    return getText(response).trim();
+  } catch (error) {
+    console.error("Error rewriting selection with Anthropic:", error);
+    throw new Error(`Failed to rewrite selection: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export async function compareScripts(originalScript: string, revisedScript: string): Promise<{
-  redundancyReduction: number;
-  improvementAreas: string[];
-}> {
+// Structured scripts come back as the input of a forced tool call
+const WRITE_SCRIPT_TOOL: Anthropic.Tool = {
+  name: "write_script",
+  description: "Write the finished YouTube script as structured sections.",
+  input_schema: SCRIPT_JSON_SCHEMA as Anthropic.Tool.InputSchema,
+};
+
+export async function generateStructuredScript(options: ScriptGenerationOptions, model: string = DEFAULT_MODEL): Promise<ScriptDocument> {
+  const { system, user } = buildScriptPrompts(options, "structured");
+  let previous: Anthropic.Message | undefined;
+
+  return generateValidatedScript(async (feedback) => {
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: user }];
+
+    // Answer the invalid tool call with the validation error so the model can fix it
+    const previousCall = previous?.content.find(block => block.type === 'tool_use');
+    if (feedback && previous) {
+      messages.push({ role: 'assistant', content: previous.content });
+      messages.push({
+        role: 'user',
+        content: previousCall
+          ? [{ type: 'tool_result', tool_use_id: previousCall.id, content: retryPrompt(feedback), is_error: true }]
+          : retryPrompt(feedback),
+      });
+    }
+
+    try {
+      const response = await getClient().messages.create({
+        model,
+        system,
+        messages,
+        max_tokens: 4000,
+        tools: [WRITE_SCRIPT_TOOL],
+        tool_choice: { type: 'tool', name: WRITE_SCRIPT_TOOL.name },
+      }, { signal: options.signal });
+
+      previous = response;
+      const call = response.content.find(block => block.type === 'tool_use');
+      return call ? call.input : parseJsonResponse(getText(response));
+    } catch (error) {
+      console.error("Error generating structured script with Anthropic:", error);
+      throw new Error(`Failed to generate script: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, options.signal);
+}
+
+export async function analyzeScript(document: ScriptDocument): Promise<ScriptAnalysis> {
+  return computeScriptMetrics(document);
+}
+
+export async function compareScripts(originalScript: string, revisedScript: string, model: string = DEFAULT_MODEL): Promise<ScriptComparison> {
+  // Redundancy is measured locally; the model only describes what improved
+  const redundancyReduction = measureRedundancyReduction(originalScript, revisedScript);
+
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      system: "Compare the original and revised YouTube scripts. Calculate the redundancy reduction percentage and identify key improvement areas. Format your response as JSON with keys: 'redundancyReduction' (number) and 'improvementAreas' (string array).",
+    const response = await getClient().messages.create({
+      model,
+      system: "Compare the original and revised YouTube scripts and identify key improvement areas. Format your response as JSON with the key 'improvementAreas' (string array).",
       max_tokens: 1024,
       messages: [
         { role: 'user', content: `Original script:\n\n${originalScript}\n\nRevised script:\n\n${revisedScript}` }
@@ -153,12 +177,12 @@ export async function compareScripts(originalScript: string, revisedScript: stri
     });
 
     // Try to parse the response as JSON
-    const jsonMatch = response.content[0].text.match(/\{.*\}/s);
+    const jsonMatch = getText(response).match(/\{[\s\S]*\}/);
     if (jsonMatch) {
       try {
         const result = JSON.parse(jsonMatch[0]);
         return {
-          redundancyReduction: result.redundancyReduction || 0,
+          redundancyReduction,
           improvementAreas: result.improvementAreas || [],
         };
       } catch (parseError) {
@@ -168,14 +192,41 @@ export async function compareScripts(originalScript: string, revisedScript: stri
     
     // Fallback
     return {
-      redundancyReduction: 0,
+      redundancyReduction,
       improvementAreas: ["Error analyzing improvements"],
     };
   } catch (error) {
     console.error("Error comparing scripts with Anthropic:", error);
     return {
-      redundancyReduction: 0,
+      redundancyReduction,
       improvementAreas: ["Error analyzing improvements"],
     };
   }
 }
+
+export const anthropicProvider: AIProvider = {
+  id: "anthropic",
+  name: "Anthropic",
+  models: [
+    {
+      id: "claude-3-7-sonnet-20250219",
+      label: "Claude 3.7 Sonnet",
+      description: "Creative, narrative-focused",
+      capabilities: { generate: true, analyze: true, compare: true, stream: true, structured: true },
+    },
+    {
+      id: "claude-3-5-haiku-20241022",
+      label: "Claude 3.5 Haiku",
+      description: "Fast, concise",
+      capabilities: { generate: true, analyze: true, compare: true, stream: true, structured: true },
+    },
+  ],
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  generateScript: (model, options) => generateScript(options, model),
+  streamScript: (model, options) => streamScript(options, model),
+  generateStructuredScript: (model, options) => generateStructuredScript(options, model),
+  rewriteSection: (model, options) => rewriteSection(options, model),
+  rewriteSelection: (model, options) => rewriteSelection(options, model),
+  analyzeScript: (_model, document) => analyzeScript(document),
+  compareScripts: (model, originalScript, revisedScript) => compareScripts(originalScript, revisedScript, model),
+};
@@ -0,0 +1,346 @@
+import type { ScriptDocument } from "@shared/schema";
+import { parseScript } from "@shared/script-document";
+import {
+  type AIProvider,
+  type ScriptAnalysis,
+  type ScriptComparison,
+  type ScriptGenerationOptions,
+  type SectionRewriteOptions,
+  type SelectionRewriteOptions,
+} from "./provider";
+import { computeScriptMetrics } from "../analysis/metrics";
+import { analyzeRedundancy, measureRedundancyReduction } from "../analysis/redundancy";
+import { generateValidatedScript } from "./structured";
+
+// Offline provider that builds scripts from templates. Output depends only on
+// the options passed in, so the same request always yields the same script.
+
+export const MOCK_MODEL = "mock";
+
+const FILLER_WORDS = ["basically", "actually", "really", "just", "very", "literally"];
+
+const toneOpeners: Record<string, string[]> = {
+  professional: ["Let's get straight to the point.", "Here is what you need to know."],
+  casual: ["Okay, so here's the deal.", "Alright, let's just jump in."],
+  educational: ["Today we're going to learn something new.", "Let's break this down step by step."],
+  entertaining: ["Buckle up, this one is really fun.", "You are not going to believe this."],
+  conversational: ["So, have you ever wondered about this?", "Let's talk about something I really care about."],
+  inspirational: ["Every big change starts with a single step.", "Imagine what you could do with this."],
+};
+
+interface MockSection {
+  title: string;
+  note: string;
+  lines: string[];
+}
+
+// Small stable string hash used to pick template variants
+function hash(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+function pick<T>(items: T[], seed: number): T {
+  return items[seed % items.length];
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = Math.floor(seconds % 60);
+  return `${minutes}:${remaining.toString().padStart(2, "0")}`;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function ensurePeriod(sentence: string): string {
+  return /[.!?]$/.test(sentence) ? sentence : `${sentence}.`;
+}
+
+// Section titles come from the user's structure, one per line, or a default outline
+function sectionTitles(structure: string | undefined, length: number): string[] {
+  const custom = (structure || "")
+    .split(/\n|,/)
+    .map(line => line.replace(/^[-*\d.)\s]+/, "").trim())
+    .filter(Boolean);
+  if (custom.length > 0) return custom;
+
+  const mainPoints = length === 1 ? 2 : length === 2 ? 3 : 5;
+  return [
+    "Hook",
+    "Intro",
+    ...Array.from({ length: mainPoints }, (_, i) => `Main Point ${i + 1}`),
+    "Recap",
+    "Call to Action",
+  ];
+}
+
+function buildSections(options: ScriptGenerationOptions): MockSection[] {
+  const seed = hash(`${options.title}|${options.instructions}|${options.tone}`);
+  const points = splitSentences(options.instructions);
+  const tone = options.tone.toLowerCase();
+  const opener = pick(toneOpeners[tone] ?? toneOpeners.conversational, seed);
+
+  return sectionTitles(options.structure, options.length).map((title, index) => {
+    const point = points.length > 0 ? ensurePeriod(points[index % points.length]) : `This part covers ${options.title}.`;
+    const key = title.toLowerCase();
+
+    if (index === 0 || key.includes("hook")) {
+      return {
+        title,
+        note: "Open with energy and look straight into the camera.",
+        lines: [opener, `In this video we're talking about ${options.title}.`, point],
+      };
+    }
+
+    if (key.includes("intro")) {
+      return {
+        title,
+        note: "Introduce yourself and set expectations.",
+        lines: [`Welcome back to the channel.`, `By the end of this video you will understand ${options.title}.`, point],
+      };
+    }
+
+    if (key.includes("recap") || key.includes("summary")) {
+      // First drafts deliberately repeat earlier lines so refinement has something to remove
+      return {
+        title,
+        note: "Slow down and summarise the key takeaways.",
+        lines: [`Let's recap what we covered.`, ...points.slice(0, 2).map(ensurePeriod), `In this video we're talking about ${options.title}.`],
+      };
+    }
+
+    if (key.includes("call") || key.includes("cta") || key.includes("outro") || key.includes("conclusion")) {
+      return {
+        title,
+        note: "Point at the subscribe button on screen.",
+        lines: [`If this helped you, like the video and subscribe.`, `Tell me in the comments what you want to see next.`, `Thanks for watching.`],
+      };
+    }
+
+    return {
+      title,
+      note: `Keep a ${tone} tone and show B-roll for this point.`,
+      lines: [point, `This is ${pick(["really", "very", "basically"], seed + index)} important because it changes how you think about ${options.title}.`, `Here's an example you can use right away.`],
+    };
+  });
+}
+
+// Spread the target duration across sections in proportion to their word count
+function renderSections(sections: MockSection[], length: number): string {
+  const totalSeconds = (length === 1 ? 3 : length === 2 ? 7 : 12) * 60;
+  const words = sections.map(section => section.lines.join(" ").split(/\s+/).length);
+  const totalWords = words.reduce((sum, count) => sum + count, 0) || 1;
+
+  let elapsed = 0;
+  return sections.map((section, index) => {
+    const start = elapsed;
+    elapsed = index === sections.length - 1
+      ? totalSeconds
+      : elapsed + Math.round(totalSeconds * words[index] / totalWords);
+    return [
+      `## ${section.title.toUpperCase()} (${formatTime(start)}-${formatTime(elapsed)})`,
+      `[Speaker note: ${section.note}]`,
+      ...section.lines,
+    ].join("\n");
+  }).join("\n\n");
+}
+
+// Parse a script produced by this provider back into sections
+function parseSections(script: string): MockSection[] {
+  const sections: MockSection[] = [];
+  for (const block of script.split(/\n{2,}/)) {
+    const [header, ...rest] = block.split("\n");
+    const title = header.replace(/^##\s*/, "").replace(/\s*\(\d+:\d+-\d+:\d+\)\s*$/, "");
+    const noteLine = rest.find(line => line.startsWith("[Speaker note:"));
+    sections.push({
+      title,
+      note: noteLine ? noteLine.replace(/^\[Speaker note:\s*/, "").replace(/\]$/, "") : "",
+      lines: rest.filter(line => line !== noteLine && line.trim()),
+    });
+  }
+  return sections;
+}
+
+function refineSections(sections: MockSection[], options: ScriptGenerationOptions, pass: number): MockSection[] {
+  const seen = new Set<string>();
+
+  return sections.map((section, index) => {
+    let lines = section.lines;
+
+    if (options.reduceRedundancy !== false) {
+      lines = lines.filter(line => {
+        const key = line.toLowerCase().replace(/[^a-z0-9 ]/g, "");
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    if (options.enhanceClarity !== false) {
+      const fillers = new RegExp(`\\b(${FILLER_WORDS.join("|")})\\s+`, "gi");
+      lines = lines.map(line => line.replace(fillers, ""));
+    }
+
+    if (options.improveEngagement !== false && index === 0) {
+      const question = `Stick around, because tip number ${pass} is the one most people miss.`;
+      if (!lines.includes(question)) lines = [...lines, question];
+    }
+
+    return { ...section, lines };
+  });
+}
+
+export async function generateScript(options: ScriptGenerationOptions): Promise<string> {
+  const previousIterations = options.previousIterations ?? [];
+
+  if (previousIterations.length === 0) {
+    return renderSections(buildSections(options), options.length);
+  }
+
+  const previous = parseSections(previousIterations[previousIterations.length - 1]);
+  return renderSections(refineSections(previous, options, previousIterations.length + 1), options.length);
+}
+
+// Delay between streamed lines so the live view looks like typing
+const STREAM_DELAY_MS = 40;
+
+export async function* streamScript(options: ScriptGenerationOptions): AsyncGenerator<string> {
+  const script = await generateScript(options);
+  const lines = script.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    options.signal?.throwIfAborted();
+    yield i < lines.length - 1 ? `${lines[i]}\n` : lines[i];
+  }
+}
+
+// Spoken text only: drop headers and bracketed directions
+function spokenText(script: string): string {
+  return script
+    .split("\n")
+    .filter(line => !line.startsWith("##"))
+    .join(" ")
+    .replace(/\[[^\]]*\]/g, " ")
+    .replace(/\(\d+:\d+(?:-\d+:\d+)?\)/g, " ");
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Tighten one section and work in any extra instructions, returning its body only
+export async function rewriteSection(options: SectionRewriteOptions): Promise<string> {
+  const [section] = parseSections(options.section);
+  const [refined] = refineSections([section], { ...options, length: 1, improveEngagement: false }, 1);
+
+  const lines = [...refined.lines];
+  if (options.extraInstructions) {
+    lines.push(ensurePeriod(options.extraInstructions.trim()));
+  }
+  lines.push(pick(["Here's why that matters.", "Let me put that another way.", "Keep that in mind for the next part."], hash(options.section)));
+
+  return [...(refined.note ? [`[Speaker note: ${refined.note}]`] : []), ...lines].join("\n");
+}
+
+const SIMPLER_WORDS: Record<string, string> = {
+  additional: "more",
+  approximately: "about",
+  demonstrate: "show",
+  however: "but",
+  numerous: "many",
+  therefore: "so",
+  utilize: "use",
+  important: "big",
+};
+
+const MOCK_JOKES = [
+  "And no, turning it off and on again won't fix this one.",
+  "Trust me, I learned that the hard way so you don't have to.",
+  "Which is more than I can say for my cooking.",
+];
+
+// Apply a selection action with simple text rules so results are repeatable
+export async function rewriteSelection(options: SelectionRewriteOptions): Promise<string> {
+  const text = options.selection.trim();
+  const seed = hash(text);
+
+  switch (options.action) {
+    case "shorten": {
+      const fillers = new RegExp(`\\b(${FILLER_WORDS.join("|")})\\s+`, "gi");
+      const sentences = splitSentences(text.replace(fillers, ""));
+      return (sentences.length > 1 ? sentences.slice(0, -1) : sentences).join(" ");
+    }
+    case "expand":
+      return `${ensurePeriod(text)} For example, think about how this plays out with ${options.title}.`;
+    case "funnier":
+      return `${ensurePeriod(text)} ${pick(MOCK_JOKES, seed)}`;
+    case "simplify":
+      return text
+        .replace(/\b[a-z]+\b/gi, word => SIMPLER_WORDS[word.toLowerCase()] ?? word)
+        .replace(/,\s+and\s+/g, ". And ");
+    case "match_tone": {
+      const openers = toneOpeners[options.tone.toLowerCase()] ?? toneOpeners.conversational;
+      return `${pick(openers, seed)} ${text}`;
+    }
+  }
+}
+
+// The template output parsed into a document, validated like a real model's reply
+export async function generateStructuredScript(options: ScriptGenerationOptions): Promise<ScriptDocument> {
+  return generateValidatedScript(async () => parseScript(await generateScript(options)), options.signal);
+}
+
+export async function analyzeScript(document: ScriptDocument): Promise<ScriptAnalysis> {
+  return computeScriptMetrics(document);
+}
+
+export async function compareScripts(originalScript: string, revisedScript: string): Promise<ScriptComparison> {
+  const redundancyReduction = measureRedundancyReduction(originalScript, revisedScript);
+
+  const improvementAreas: string[] = [];
+  const repeatedBefore = analyzeRedundancy(parseScript(originalScript)).clusters.length;
+  const repeatedAfter = analyzeRedundancy(parseScript(revisedScript)).clusters.length;
+  if (repeatedAfter < repeatedBefore) improvementAreas.push("Removed repeated sentences");
+
+  const fillers = new RegExp(`\\b(${FILLER_WORDS.join("|")})\\b`, "gi");
+  if ((revisedScript.match(fillers)?.length ?? 0) < (originalScript.match(fillers)?.length ?? 0)) {
+    improvementAreas.push("Cut filler words for clarity");
+  }
+
+  const wordDelta = countWords(spokenText(revisedScript)) - countWords(spokenText(originalScript));
+  if (wordDelta !== 0) {
+    improvementAreas.push(`${wordDelta < 0 ? "Shortened" : "Expanded"} the script by ${Math.abs(wordDelta)} words`);
+  }
+
+  return { redundancyReduction, improvementAreas };
+}
+
+export const mockProvider: AIProvider = {
+  id: "mock",
+  name: "Mock (offline)",
+  models: [
+    {
+      id: MOCK_MODEL,
+      label: "Mock",
+      description: "Offline, deterministic output for demos and tests",
+      capabilities: { generate: true, analyze: true, compare: true, stream: true, structured: true },
+    },
+  ],
+  isConfigured: () => true,
+  generateScript: (_model, options) => generateScript(options),
+  streamScript: (_model, options) => streamScript(options),
+  generateStructuredScript: (_model, options) => generateStructuredScript(options),
+  rewriteSection: (_model, options) => rewriteSection(options),
+  rewriteSelection: (_model, options) => rewriteSelection(options),
+  analyzeScript: (_model, document) => analyzeScript(document),
+  compareScripts: (_model, originalScript, revisedScript) => compareScripts(originalScript, revisedScript),
+};
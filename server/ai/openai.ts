@@ -1,86 +1,47 @@
 import OpenAI from "openai";
+import type { ScriptDocument } from "@shared/schema";
+import {
+  buildScriptPrompts,
+  buildSectionPrompts,
+  buildSelectionPrompts,
+  type AIProvider,
+  type ScriptAnalysis,
+  type ScriptComparison,
+  type ScriptGenerationOptions,
+  type SectionRewriteOptions,
+  type SelectionRewriteOptions,
+} from "./provider";
+import { computeScriptMetrics } from "../analysis/metrics";
+import { measureRedundancyReduction } from "../analysis/redundancy";
+import { SCRIPT_JSON_SCHEMA, generateValidatedScript, parseJsonResponse, retryPrompt } from "./structured";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || "dummy-key",
-});
-
-interface ScriptGenerationOptions {
-  title: string;
-  instructions: string;
-  structure?: string;
-  tone: string;
-  length: number; // 1-3 (short, medium, long)
-  previousIterations?: string[];
-  reduceRedundancy?: boolean;
-  enhanceClarity?: boolean;
-  improveEngagement?: boolean;
-}
+const DEFAULT_MODEL = "gpt-4o";
 
-export async function generateScript(options: ScriptGenerationOptions): Promise<string> {
-  const {
-    title,
-    instructions,
-    structure,
-    tone,
-    length,
-    previousIterations = [],
-    reduceRedundancy = true,
-    enhanceClarity = true,
-    improveEngagement = true,
-  } = options;
-
-  const lengthDescription = length === 1 ? "short (around 3 minutes)" : 
-                           length === 2 ? "medium (around 7 minutes)" : 
-                           "long (around 12 minutes)";
-
-  // Create system prompt based on iteration number
-  let systemPrompt = "You are an expert YouTube scriptwriter.";
-  
-  if (previousIterations.length === 0) {
-    // First iteration
-    systemPrompt += ` Create a ${lengthDescription} YouTube script based on the instructions provided. Use appropriate formatting with sections, timestamps, and speaker notes.`;
-  } else {
-    // Refinement iterations
-    systemPrompt += " Refine the previous script version to improve quality:";
-    
-    if (reduceRedundancy) {
-      systemPrompt += "\n- Reduce redundancy and repetition";
-    }
-    
-    if (enhanceClarity) {
-      systemPrompt += "\n- Enhance clarity and coherence";
-    }
-    
-    if (improveEngagement) {
-      systemPrompt += "\n- Improve engagement and flow";
-    }
-    
-    systemPrompt += "\n\nMaintain the same general structure but improve the content.";
-  }
+let client: OpenAI | undefined;
 
-  // Create user prompt
-  let userPrompt = `Title: ${title}\n\nInstructions: ${instructions}\n\nTone: ${tone}\n\nDesired Length: ${lengthDescription}`;
-  
-  if (structure) {
-    userPrompt += `\n\nStructure: ${structure}`;
+// Create the client on first use so a missing key fails with a clear message
+function getClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not set");
   }
+  client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
 
-  // Add previous iterations for context if this is a refinement
-  if (previousIterations.length > 0) {
-    userPrompt += `\n\nPrevious iteration to refine:\n\n${previousIterations[previousIterations.length - 1]}`;
-  }
+export async function generateScript(options: ScriptGenerationOptions, model: string = DEFAULT_MODEL): Promise<string> {
+  const { system, user } = buildScriptPrompts(options);
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await getClient().chat.completions.create({
+      model,
       messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
+        { role: "system", content: system },
+        { role: "user", content: user }
       ],
       temperature: 0.7,
       max_tokens: 4000,
-    });
+    }, { signal: options.signal });
 
     return response.choices[0].message.content || "Failed to generate script.";
   } catch (error) {
@@ -89,57 +50,123 @@ export async function generateScript(options: ScriptGenerationOptions): Promise<
   }
 }
 
-export async function analyzeScript(script: string): Promise<{
-  redundancyReduction?: number;
-  wordCount: number;
-  estimatedDuration: number;
-  readabilityScore?: number;
-}> {
+export async function* streamScript(options: ScriptGenerationOptions, model: string = DEFAULT_MODEL): AsyncGenerator<string> {
+  const { system, user } = buildScriptPrompts(options);
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const stream = await getClient().chat.completions.create({
+      model,
       messages: [
-        {
-          role: "system",
-          content: "Analyze the YouTube script and provide metrics in JSON format with the following fields: wordCount (number), estimatedDuration (in seconds), readabilityScore (1-10 scale with 10 being most readable)"
+        { role: "system", content: system },
+        { role: "user", content: user }
+      ],
+      temperature: 0.7,
+      max_tokens: 4000,
+      stream: true,
+    }, { signal: options.signal });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  } catch (error) {
+    console.error("Error streaming script with OpenAI:", error);
+    throw new Error(`Failed to generate script: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function generateStructuredScript(options: ScriptGenerationOptions, model: string = DEFAULT_MODEL): Promise<ScriptDocument> {
+  const { system, user } = buildScriptPrompts(options, "structured");
+  let previousReply = "";
+
+  return generateValidatedScript(async (feedback) => {
+    const messages: OpenAI.ChatCompletionMessageParam[] = [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ];
+    // Show the model its invalid reply along with what was wrong with it
+    if (feedback) {
+      messages.push({ role: "assistant", content: previousReply }, { role: "user", content: retryPrompt(feedback) });
+    }
+
+    try {
+      const response = await getClient().chat.completions.create({
+        model,
+        messages,
+        temperature: 0.7,
+        max_tokens: 4000,
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "script", schema: SCRIPT_JSON_SCHEMA, strict: true },
         },
-        { role: "user", content: script }
+      }, { signal: options.signal });
+
+      previousReply = response.choices[0].message.content || "";
+      return parseJsonResponse(previousReply);
+    } catch (error) {
+      console.error("Error generating structured script with OpenAI:", error);
+      throw new Error(`Failed to generate script: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, options.signal);
+}
+
+export async function rewriteSection(options: SectionRewriteOptions, model: string = DEFAULT_MODEL): Promise<string> {
+  const { system, user } = buildSectionPrompts(options);
+
+  try {
+    const response = await getClient().chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user }
       ],
-      response_format: { type: "json_object" },
-    });
+      temperature: 0.7,
+      max_tokens: 2000,
+    }, { signal: options.signal });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    
-    return {
-      wordCount: result.wordCount || script.split(/\s+/).length,
-      estimatedDuration: result.estimatedDuration || Math.round(script.split(/\s+/).length / 150 * 60), // Rough estimate: 150 words per minute
-      readabilityScore: result.readabilityScore,
-    };
+    return response.choices[0].message.content || "";
   } catch (error) {
-    console.error("Error analyzing script with OpenAI:", error);
-    
-    // Fallback to basic analysis if API fails
-    const wordCount = script.split(/\s+/).length;
-    const estimatedDuration = Math.round(wordCount / 150 * 60); // Rough estimate: 150 words per minute
-    
-    return {
-      wordCount,
-      estimatedDuration,
-    };
+    console.error("Error rewriting section with OpenAI:", error);
+    throw new Error(`Failed to rewrite section: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export async function compareScripts(originalScript: string, revisedScript: string): Promise<{
-  redundancyReduction: number;
-  improvementAreas: string[];
-}> {
+export async function rewriteSelection(options: SelectionRewriteOptions, model: string = DEFAULT_MODEL): Promise<string> {
+  const { system, user } = buildSelectionPrompts(options);
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await getClient().chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user }
+      ],
+      temperature: 0.7,
+      max_tokens: 1500,
+    }, { signal: options.signal });
+
+    return (response.choices[0].message.content || "").trim();
+  } catch (error) {
+    console.error("Error rewriting selection with OpenAI:", error);
+    throw new Error(`Failed to rewrite selection: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function analyzeScript(document: ScriptDocument): Promise<ScriptAnalysis> {
+  return computeScriptMetrics(document);
+}
+
+export async function compareScripts(originalScript: string, revisedScript: string, model: string = DEFAULT_MODEL): Promise<ScriptComparison> {
+  // Redundancy is measured locally; the model only describes what improved
+  const redundancyReduction = measureRedundancyReduction(originalScript, revisedScript);
+
+  try {
+    const response = await getClient().chat.completions.create({
+      model,
       messages: [
         {
           role: "system",
-          content: "Compare the original and revised YouTube scripts. Calculate the redundancy reduction percentage and identify key improvement areas. Respond with JSON in this format: { 'redundancyReduction': number, 'improvementAreas': string[] }"
+          content: "Compare the original and revised YouTube scripts and identify key improvement areas. Respond with JSON in this format: { 'improvementAreas': string[] }"
         },
         {
           role: "user",
@@ -152,14 +179,41 @@ export async function compareScripts(originalScript: string, revisedScript: stri
     const result = JSON.parse(response.choices[0].message.content || "{}");
     
     return {
-      redundancyReduction: result.redundancyReduction || 0,
+      redundancyReduction,
       improvementAreas: result.improvementAreas || [],
     };
   } catch (error) {
     console.error("Error comparing scripts with OpenAI:", error);
     return {
-      redundancyReduction: 0,
+      redundancyReduction,
       improvementAreas: ["Error analyzing improvements"],
     };
   }
 }
+
+export const openaiProvider: AIProvider = {
+  id: "openai",
+  name: "OpenAI",
+  models: [
+    {
+      id: "gpt-4o",
+      label: "GPT-4o",
+      description: "Most powerful, slower",
+      capabilities: { generate: true, analyze: true, compare: true, stream: true, structured: true },
+    },
+    {
+      id: "gpt-4o-mini",
+      label: "GPT-4o mini",
+      description: "Balanced, faster and cheaper",
+      capabilities: { generate: true, analyze: true, compare: true, stream: true, structured: true },
+    },
+  ],
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  generateScript: (model, options) => generateScript(options, model),
+  streamScript: (model, options) => streamScript(options, model),
+  generateStructuredScript: (model, options) => generateStructuredScript(options, model),
+  rewriteSection: (model, options) => rewriteSection(options, model),
+  rewriteSelection: (model, options) => rewriteSelection(options, model),
+  analyzeScript: (_model, document) => analyzeScript(document),
+  compareScripts: (model, originalScript, revisedScript) => compareScripts(originalScript, revisedScript, model),
+};
@@ -0,0 +1,178 @@
+import type { AIModelCapabilities, ScriptDocument, ScriptMetrics, SelectionRewriteAction } from "@shared/schema";
+import { SCRIPT_FORMAT_GUIDE } from "@shared/script-document";
+import { STRUCTURED_FORMAT_GUIDE } from "./structured";
+
+export interface ScriptGenerationOptions {
+  title: string;
+  instructions: string;
+  structure?: string;
+  tone: string;
+  length: number; // 1-3 (short, medium, long)
+  previousIterations?: string[];
+  reduceRedundancy?: boolean;
+  enhanceClarity?: boolean;
+  improveEngagement?: boolean;
+  signal?: AbortSignal; // aborts the provider request when the job is cancelled
+}
+
+// Rewrite one section of an existing script, leaving the others untouched
+export interface SectionRewriteOptions {
+  title: string;
+  instructions: string;
+  tone: string;
+  script: string; // the full current script, for context
+  section: string; // the section to rewrite, including its header
+  extraInstructions?: string;
+  signal?: AbortSignal;
+}
+
+// Rewrite a passage the writer selected in the editor
+export interface SelectionRewriteOptions {
+  action: SelectionRewriteAction;
+  selection: string;
+  before: string; // surrounding text, for context only
+  after: string;
+  title: string;
+  tone: string;
+  signal?: AbortSignal;
+}
+
+// Computed locally by server/analysis/metrics.ts, whichever provider wrote the script
+export type ScriptAnalysis = ScriptMetrics;
+
+export interface ScriptComparison {
+  redundancyReduction: number;
+  improvementAreas: string[];
+}
+
+// A model a provider can serve, as listed by GET /api/models
+export interface AIModelDefinition {
+  id: string;
+  label: string;
+  description: string;
+  capabilities: AIModelCapabilities;
+}
+
+// Common interface every AI backend implements. The model id is passed on
+// each call so one provider can serve several models.
+export interface AIProvider {
+  id: string;
+  name: string;
+  models: AIModelDefinition[];
+  isConfigured(): boolean;
+  generateScript(model: string, options: ScriptGenerationOptions): Promise<string>;
+  // Yield the script as it is written; only needed for models with the stream capability
+  streamScript?(model: string, options: ScriptGenerationOptions): AsyncIterable<string>;
+  // Return the script as a validated document; only needed for models with the structured capability
+  generateStructuredScript?(model: string, options: ScriptGenerationOptions): Promise<ScriptDocument>;
+  // Return the new body of a single section, without its header
+  rewriteSection(model: string, options: SectionRewriteOptions): Promise<string>;
+  // Return replacement text for the selected passage only
+  rewriteSelection(model: string, options: SelectionRewriteOptions): Promise<string>;
+  analyzeScript(model: string, document: ScriptDocument): Promise<ScriptAnalysis>;
+  compareScripts(model: string, originalScript: string, revisedScript: string): Promise<ScriptComparison>;
+}
+
+export function describeLength(length: number): string {
+  return length === 1 ? "short (around 3 minutes)" :
+         length === 2 ? "medium (around 7 minutes)" :
+         "long (around 12 minutes)";
+}
+
+// Build the system and user prompts shared by every provider. The structured
+// format is for requests whose output is constrained by SCRIPT_JSON_SCHEMA.
+export function buildScriptPrompts(
+  options: ScriptGenerationOptions,
+  format: "text" | "structured" = "text",
+): { system: string; user: string } {
+  const {
+    title,
+    instructions,
+    structure,
+    tone,
+    length,
+    previousIterations = [],
+    reduceRedundancy = true,
+    enhanceClarity = true,
+    improveEngagement = true,
+  } = options;
+
+  const lengthDescription = describeLength(length);
+
+  // Create system prompt based on iteration number
+  let system = "You are an expert YouTube scriptwriter.";
+
+  if (previousIterations.length === 0) {
+    // First iteration
+    system += ` Create a ${lengthDescription} YouTube script based on the instructions provided.`;
+  } else {
+    // Refinement iterations
+    system += " Refine the previous script version to improve quality:";
+
+    if (reduceRedundancy) {
+      system += "\n- Reduce redundancy and repetition";
+    }
+
+    if (enhanceClarity) {
+      system += "\n- Enhance clarity and coherence";
+    }
+
+    if (improveEngagement) {
+      system += "\n- Improve engagement and flow";
+    }
+
+    system += "\n\nMaintain the same general structure but improve the content.";
+  }
+
+  system += `\n\n${format === "structured" ? STRUCTURED_FORMAT_GUIDE : SCRIPT_FORMAT_GUIDE}`;
+
+  // Create user prompt
+  let user = `Title: ${title}\n\nInstructions: ${instructions}\n\nTone: ${tone}\n\nDesired Length: ${lengthDescription}`;
+
+  if (structure) {
+    user += `\n\nStructure: ${structure}`;
+  }
+
+  // Add previous iterations for context if this is a refinement
+  if (previousIterations.length > 0) {
+    user += `\n\nPrevious iteration to refine:\n\n${previousIterations[previousIterations.length - 1]}`;
+  }
+
+  return { system, user };
+}
+
+// Prompts for rewriting a single section in place
+export function buildSectionPrompts(options: SectionRewriteOptions): { system: string; user: string } {
+  const system = "You are an expert YouTube scriptwriter. Rewrite only the section you are given so it reads better " +
+    "and fits the rest of the script. Reply with the new body of that section only: no header line, no other sections " +
+    `and no commentary.\n\n${SCRIPT_FORMAT_GUIDE}`;
+
+  let user = `Title: ${options.title}\n\nInstructions: ${options.instructions}\n\nTone: ${options.tone}` +
+    `\n\nFull script for context:\n\n${options.script}\n\nSection to rewrite:\n\n${options.section}`;
+
+  if (options.extraInstructions) {
+    user += `\n\nAdditional instructions for this section: ${options.extraInstructions}`;
+  }
+
+  return { system, user };
+}
+
+const SELECTION_ACTIONS: Record<SelectionRewriteAction, (tone: string) => string> = {
+  shorten: () => "Make the passage shorter and tighter without losing its meaning.",
+  expand: () => "Expand the passage with more detail or an example, keeping the same voice.",
+  funnier: () => "Make the passage funnier with light, natural humour that suits a YouTube audience.",
+  simplify: () => "Simplify the passage so a 12-year-old could follow it: short sentences and everyday words.",
+  match_tone: (tone) => `Rewrite the passage in a ${tone} tone to match the rest of the script.`,
+};
+
+// Prompts for rewriting a selected passage in place
+export function buildSelectionPrompts(options: SelectionRewriteOptions): { system: string; user: string } {
+  const system = "You are an expert YouTube script editor. " + SELECTION_ACTIONS[options.action](options.tone) +
+    " Reply with the replacement text for the selected passage only, with no quotes or commentary, so it can be " +
+    "dropped in place between the surrounding text.";
+
+  const user = `Script title: ${options.title}\n\nText before the selection:\n${options.before || "(start of script)"}` +
+    `\n\nSelected passage:\n${options.selection}\n\nText after the selection:\n${options.after || "(end of script)"}`;
+
+  return { system, user };
+}
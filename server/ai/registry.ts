@@ -0,0 +1,59 @@
+import type { AIModelInfo } from "@shared/schema";
+import type { AIProvider, AIModelDefinition } from "./provider";
+import { openaiProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { mockProvider } from "./mock";
+
+export interface RegisteredModel {
+  definition: AIModelDefinition;
+  provider: AIProvider;
+}
+
+// Model ids stored by earlier versions of the client
+const legacyAliases: Record<string, string> = {
+  "gpt-4": "gpt-4o",
+  "gpt-3.5": "gpt-4o-mini",
+  "claude": "claude-3-7-sonnet-20250219",
+};
+
+const models = new Map<string, RegisteredModel>();
+
+// Register every model a provider serves, keyed by model id
+export function registerProvider(provider: AIProvider) {
+  for (const definition of provider.models) {
+    if (models.has(definition.id)) {
+      throw new Error(`AI model "${definition.id}" is already registered`);
+    }
+    models.set(definition.id, { definition, provider });
+  }
+}
+
+// MOCK_AI=true runs every request on the offline mock provider
+function isMockForced(): boolean {
+  return process.env.MOCK_AI === "true";
+}
+
+// Resolve a model id (or a legacy alias) to its provider. Under MOCK_AI the
+// id is still validated; only the provider that runs the model is swapped.
+export function getModel(modelId: string): RegisteredModel | undefined {
+  const model = models.get(modelId) ?? models.get(legacyAliases[modelId]);
+  if (model && isMockForced()) {
+    return { definition: model.definition, provider: mockProvider };
+  }
+  return model;
+}
+
+export function listModels(): AIModelInfo[] {
+  return Array.from(models.values()).map(({ definition, provider }) => ({
+    id: definition.id,
+    label: definition.label,
+    description: definition.description,
+    provider: provider.name,
+    available: isMockForced() || provider.isConfigured(),
+    capabilities: definition.capabilities,
+  }));
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,209 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { directionKinds, type ScriptDocument } from "@shared/schema";
+import { parseTimestamp } from "@shared/script-document";
+
+// Structured generation: models return the script as JSON matching
+// SCRIPT_JSON_SCHEMA, which is validated here before it becomes a ScriptDocument.
+
+// Model calls per generation before structured output is given up on
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+export const STRUCTURED_FORMAT_GUIDE =
+  "Return the script as structured data: a list of sections, each with a title, start and end times in seconds (or null), " +
+  "and its elements in order. Elements are spoken lines (with an optional speaker), production directions " +
+  "(b_roll, camera, sfx, music or general), on-screen text, and talent notes for the presenter's delivery.";
+
+const nullableString = { type: ["string", "null"] };
+const nullableNumber = { type: ["number", "null"] };
+
+function elementSchema(type: string, properties: Record<string, unknown> = {}) {
+  return {
+    type: "object",
+    properties: { type: { type: "string", enum: [type] }, text: { type: "string" }, ...properties },
+    required: ["type", "text", ...Object.keys(properties)],
+    additionalProperties: false,
+  };
+}
+
+// JSON schema sent to the providers. Every property is required and optional
+// values are nullable so it also satisfies OpenAI's strict mode.
+export const SCRIPT_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    sections: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          start: nullableNumber,
+          end: nullableNumber,
+          elements: {
+            type: "array",
+            items: {
+              anyOf: [
+                elementSchema("line", { speaker: nullableString }),
+                elementSchema("direction", { kind: { type: "string", enum: [...directionKinds] } }),
+                elementSchema("on_screen_text"),
+                elementSchema("talent_note"),
+              ],
+            },
+          },
+        },
+        required: ["title", "start", "end", "elements"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["sections"],
+  additionalProperties: false,
+};
+
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+
+// What we accept back from a model; nulls are dropped on the way to a ScriptDocument
+const structuredScriptSchema = z.object({
+  sections: z.array(z.object({
+    title: z.string(),
+    start: optional(z.number().nonnegative()),
+    end: optional(z.number().nonnegative()),
+    elements: z.array(z.discriminatedUnion("type", [
+      z.object({ type: z.literal("line"), text: z.string().min(1), speaker: optional(z.string()) }),
+      z.object({ type: z.literal("direction"), kind: z.enum(directionKinds), text: z.string().min(1) }),
+      z.object({ type: z.literal("on_screen_text"), text: z.string().min(1) }),
+      z.object({ type: z.literal("talent_note"), text: z.string().min(1) }),
+    ])),
+  })).min(1, "The script must have at least one section"),
+});
+
+const ELEMENT_TYPE_ALIASES: Record<string, string> = {
+  dialogue: "line",
+  spoken: "line",
+  speech: "line",
+  narration: "line",
+  note: "talent_note",
+  speaker_note: "talent_note",
+  delivery: "talent_note",
+  on_screen: "on_screen_text",
+  text_overlay: "on_screen_text",
+  graphic: "on_screen_text",
+  b_roll: "direction",
+  camera: "direction",
+  sfx: "direction",
+  music: "direction",
+  stage_direction: "direction",
+};
+
+function repairTime(value: unknown): unknown {
+  return typeof value === "string" && /^\d{1,2}:\d{2}(?::\d{2})?$/.test(value.trim())
+    ? parseTimestamp(value.trim())
+    : value;
+}
+
+// Shapes loose enough to repair: the right containers, with any values inside
+const looseElementSchema = z.object({ type: z.unknown(), kind: z.unknown(), text: z.string() }).passthrough();
+
+const looseSectionSchema = z.object({
+  title: z.unknown(),
+  start: z.unknown(),
+  end: z.unknown(),
+  elements: z.array(z.unknown()).catch([]),
+}).passthrough();
+
+const looseScriptSchema = z.object({ sections: z.array(z.unknown()) }).passthrough();
+
+// A bare list of sections, a script wrapped in { script }, or the script itself
+const looseRootSchema = z.union([
+  z.array(z.unknown()).transform(sections => ({ sections })),
+  z.object({ script: looseScriptSchema }).transform(({ script }) => script),
+  looseScriptSchema,
+]);
+
+const knownDirectionKinds: readonly string[] = directionKinds;
+
+function repairElement(element: z.infer<typeof looseElementSchema>): Record<string, unknown> {
+  const alias = String(element.type ?? "").toLowerCase().replace(/[\s-]+/g, "_");
+  const type = ELEMENT_TYPE_ALIASES[alias] ?? alias;
+  const repaired: Record<string, unknown> = { ...element, type, text: element.text.trim() };
+  if (type === "direction" && !knownDirectionKinds.includes(String(element.kind))) {
+    repaired.kind = knownDirectionKinds.includes(alias) ? alias : "general";
+  }
+  return repaired;
+}
+
+// Fix the usual near-misses (aliased element types, "m:ss" times, stray
+// wrappers and empty lines) without another round trip to the model
+function repairStructuredScript(raw: unknown): unknown {
+  const root = looseRootSchema.safeParse(raw);
+  if (!root.success) return raw;
+
+  return {
+    sections: root.data.sections.map(value => {
+      // Anything that is not a section is left for validation to reject
+      const section = looseSectionSchema.safeParse(value);
+      if (!section.success) return value;
+
+      return {
+        ...section.data,
+        title: section.data.title ?? "",
+        start: repairTime(section.data.start),
+        end: repairTime(section.data.end),
+        elements: section.data.elements.flatMap(item => {
+          const element = looseElementSchema.safeParse(item);
+          return element.success && element.data.text.trim() ? [repairElement(element.data)] : [];
+        }),
+      };
+    }),
+  };
+}
+
+export type StructuredScriptResult =
+  | { success: true; document: ScriptDocument }
+  | { success: false; error: string };
+
+export function validateStructuredScript(raw: unknown): StructuredScriptResult {
+  let result = structuredScriptSchema.safeParse(raw);
+  if (!result.success) {
+    result = structuredScriptSchema.safeParse(repairStructuredScript(raw));
+  }
+
+  if (!result.success) {
+    return { success: false, error: fromZodError(result.error).message };
+  }
+  return { success: true, document: { version: 1, ...result.data } };
+}
+
+// Call the model until it returns a valid script. Each retry passes the previous
+// validation error back as feedback so the model can correct itself.
+export async function generateValidatedScript(
+  request: (feedback?: string) => Promise<unknown>,
+  signal?: AbortSignal,
+): Promise<ScriptDocument> {
+  let feedback: string | undefined;
+
+  for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+    signal?.throwIfAborted();
+
+    const result = validateStructuredScript(await request(feedback));
+    if (result.success) return result.document;
+
+    feedback = result.error;
+    console.warn(`Structured script failed validation (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}):`, feedback);
+  }
+
+  throw new Error(`Model did not return a valid structured script: ${feedback}`);
+}
+
+export function retryPrompt(feedback: string): string {
+  return `Your previous response did not match the required structure (${feedback}). Return the complete script again, following the schema exactly.`;
+}
+
+// Parse a JSON reply, handing invalid JSON to validation as-is so it is retried
+export function parseJsonResponse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,236 @@
+import type { DiffChunk, ScriptDiff, ScriptDocumentSection, ScriptIteration, SectionDiff } from "@shared/schema";
+import { iterationDocument, serializeElement } from "@shared/script-document";
+import { sectionTitle, tokenizeWords } from "./metrics";
+
+// Word-level diff between two script versions, aligned section by section.
+// Lines are diffed first and only changed blocks are diffed word by word,
+// which keeps the LCS tables small even for long scripts.
+
+// Above this many LCS cells a block is reported as a plain replacement
+const MAX_LCS_CELLS = 1_000_000;
+
+// Positions in the old (a) and new (b) lists; equal ops carry both
+type Op = { type: DiffChunk["type"]; a: number; b: number };
+
+// Longest-common-subsequence edit script between two token lists
+function diffSequences(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: "equal", a: i, b: i });
+
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) ops.push({ type: "delete", a: i, b: -1 });
+    for (let j = start; j < endB; j++) ops.push({ type: "insert", a: -1, b: j });
+  } else {
+    // lengths[i][j] = LCS of a[start + i..] and b[start + j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        ops.push({ type: "equal", a: start + i, b: start + j });
+        i++;
+        j++;
+      } else if (j < m && (i === n || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+        ops.push({ type: "insert", a: -1, b: start + j });
+        j++;
+      } else {
+        ops.push({ type: "delete", a: start + i, b: -1 });
+        i++;
+      }
+    }
+  }
+
+  for (let i = endA; i < a.length; i++) ops.push({ type: "equal", a: i, b: i - endA + endB });
+  return ops;
+}
+
+function pushChunk(chunks: DiffChunk[], type: DiffChunk["type"], text: string) {
+  if (!text) return;
+  const last = chunks[chunks.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    chunks.push({ type, text });
+  }
+}
+
+// Whitespace left between two changes reads better as part of the change
+function absorbWhitespace(chunks: DiffChunk[]): DiffChunk[] {
+  const result: DiffChunk[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const prev = chunks[index - 1];
+    const next = chunks[index + 1];
+    if (chunk.type === "equal" && !chunk.text.trim() && prev && next && prev.type !== "equal" && next.type !== "equal") {
+      pushChunk(result, "delete", chunk.text);
+      pushChunk(result, "insert", chunk.text);
+    } else {
+      pushChunk(result, chunk.type, chunk.text);
+    }
+  });
+
+  // Regroup so each change reads as one removal followed by one addition
+  const grouped: DiffChunk[] = [];
+  let deleted = "";
+  let inserted = "";
+  const flush = () => {
+    pushChunk(grouped, "delete", deleted);
+    pushChunk(grouped, "insert", inserted);
+    deleted = "";
+    inserted = "";
+  };
+  for (const chunk of result) {
+    if (chunk.type === "delete") deleted += chunk.text;
+    else if (chunk.type === "insert") inserted += chunk.text;
+    else {
+      flush();
+      pushChunk(grouped, "equal", chunk.text);
+    }
+  }
+  flush();
+
+  return grouped;
+}
+
+export function diffWords(before: string, after: string): DiffChunk[] {
+  const a = before.match(/\s+|\S+/g) ?? [];
+  const b = after.match(/\s+|\S+/g) ?? [];
+  const chunks: DiffChunk[] = [];
+
+  for (const op of diffSequences(a, b)) {
+    pushChunk(chunks, op.type, op.type === "insert" ? b[op.b] : a[op.a]);
+  }
+  return absorbWhitespace(chunks);
+}
+
+export function diffText(before: string, after: string): DiffChunk[] {
+  const a = before.split("\n").map(line => line + "\n");
+  const b = after.split("\n").map(line => line + "\n");
+  const chunks: DiffChunk[] = [];
+
+  let deleted = "";
+  let inserted = "";
+  const flush = () => {
+    if (deleted && inserted) {
+      diffWords(deleted, inserted).forEach(chunk => pushChunk(chunks, chunk.type, chunk.text));
+    } else {
+      pushChunk(chunks, "delete", deleted);
+      pushChunk(chunks, "insert", inserted);
+    }
+    deleted = "";
+    inserted = "";
+  };
+
+  for (const op of diffSequences(a, b)) {
+    if (op.type === "delete") deleted += a[op.a];
+    else if (op.type === "insert") inserted += b[op.b];
+    else {
+      flush();
+      pushChunk(chunks, "equal", a[op.a]);
+    }
+  }
+  flush();
+
+  // Drop the newline added to the final line
+  const last = chunks[chunks.length - 1];
+  if (last?.text.endsWith("\n")) {
+    last.text = last.text.slice(0, -1);
+    if (!last.text) chunks.pop();
+  }
+  return chunks;
+}
+
+function sectionText(section: ScriptDocumentSection): string {
+  return section.elements.map(serializeElement).join("\n");
+}
+
+function wholeSection(section: ScriptDocumentSection, type: DiffChunk["type"]): DiffChunk[] {
+  const text = sectionText(section);
+  return text ? [{ type, text }] : [];
+}
+
+function diffSections(before: ScriptDocumentSection, after: ScriptDocumentSection): SectionDiff {
+  const chunks = diffText(sectionText(before), sectionText(after));
+  const renamed = sectionTitle(before) !== sectionTitle(after);
+  return {
+    title: sectionTitle(after),
+    previousTitle: renamed ? sectionTitle(before) : undefined,
+    status: renamed || chunks.some(chunk => chunk.type !== "equal") ? "modified" : "unchanged",
+    chunks,
+  };
+}
+
+// Sections are matched by title; runs of removed and added sections between
+// matches are paired up in order, which treats a renamed section as modified.
+function alignSections(before: ScriptDocumentSection[], after: ScriptDocumentSection[]): SectionDiff[] {
+  const key = (section: ScriptDocumentSection) => sectionTitle(section).toLowerCase();
+  const result: SectionDiff[] = [];
+
+  let removed: ScriptDocumentSection[] = [];
+  let added: ScriptDocumentSection[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) result.push(diffSections(removed[i], added[i]));
+    for (const section of removed.slice(paired)) {
+      result.push({ title: sectionTitle(section), status: "removed", chunks: wholeSection(section, "delete") });
+    }
+    for (const section of added.slice(paired)) {
+      result.push({ title: sectionTitle(section), status: "added", chunks: wholeSection(section, "insert") });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffSequences(before.map(key), after.map(key))) {
+    if (op.type === "delete") removed.push(before[op.a]);
+    else if (op.type === "insert") added.push(after[op.b]);
+    else {
+      flush();
+      result.push(diffSections(before[op.a], after[op.b]));
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function countWords(chunks: DiffChunk[], type: DiffChunk["type"]): number {
+  return chunks
+    .filter(chunk => chunk.type === type)
+    .reduce((sum, chunk) => sum + tokenizeWords(chunk.text).length, 0);
+}
+
+export function diffIterations(from: ScriptIteration, to: ScriptIteration): ScriptDiff {
+  const sections = alignSections(iterationDocument(from).sections, iterationDocument(to).sections);
+  const chunks = sections.flatMap(section => section.chunks);
+
+  return {
+    fromIterationId: from.id,
+    toIterationId: to.id,
+    wordsAdded: countWords(chunks, "insert"),
+    wordsRemoved: countWords(chunks, "delete"),
+    sections,
+  };
+}
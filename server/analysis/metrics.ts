@@ -0,0 +1,139 @@
+import type { ScriptDocument, ScriptDocumentSection, ScriptMetrics, SectionMetrics } from "@shared/schema";
+import { spokenLines } from "@shared/script-document";
+
+// Deterministic, local script metrics. Everything here is computed from the
+// script document alone so results are stable across runs and cost no API calls.
+
+export const WORDS_PER_MINUTE = 150;
+
+export const FILLER_WORDS = [
+  "um", "uh", "basically", "actually", "literally", "really",
+  "just", "very", "you know", "i mean", "kind of", "sort of",
+];
+
+// "Like" is only filler when set off by commas ("it was, like, huge"), not in "looks like"
+const FILLER_LIKE = /(?:^|[,.!?;])[ \t]*like[ \t]*,/gim;
+
+const TIMESTAMP_PATTERN = /[\[(]?\b\d{1,2}:\d{2}(?:\s*[-–]\s*\d{1,2}:\d{2})?\b[\])]?/g;
+
+// Strip inline cues, timestamps and emphasis from a spoken line
+function spokenLine(line: string): string {
+  return line
+    .replace(/\[[^\]]*\]/g, " ")
+    .replace(TIMESTAMP_PATTERN, " ")
+    .replace(/[*_#>`]/g, "");
+}
+
+// What the talent says in a section of the stored document, leaving out directions
+export function sectionSpokenText(section: ScriptDocumentSection): string {
+  return spokenLines(section).map(spokenLine).join("\n");
+}
+
+export function documentSpokenText(document: ScriptDocument): string {
+  return document.sections.map(sectionSpokenText).join("\n");
+}
+
+// Sections are titled as in the review UI, where text before the first header is the intro
+export function sectionTitle(section: ScriptDocumentSection): string {
+  return section.title || "Intro";
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text.match(/[A-Za-z0-9']+/g) ?? [];
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/[.!?]+(?=\s|$)|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => tokenizeWords(sentence).length > 0);
+}
+
+// Vowel-group syllable estimate, good enough for readability formulas
+export function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!cleaned) return 0;
+  if (cleaned.length <= 3) return 1;
+
+  const trimmed = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function secondsForWords(words: number): number {
+  return Math.round(words / WORDS_PER_MINUTE * 60);
+}
+
+// Map Flesch reading ease (0-100, higher is easier) onto the 1-10 readabilityScore scale
+export function readabilityFromEase(ease: number): number {
+  return Math.min(10, Math.max(1, Math.round(ease / 10)));
+}
+
+function countFillers(text: string): Record<string, number> {
+  const lower = ` ${text.toLowerCase().replace(/[^a-z0-9' ]+/g, " ")} `;
+  const counts: Record<string, number> = {};
+
+  for (const filler of FILLER_WORDS) {
+    const matches = lower.match(new RegExp(` ${filler} `, "g"));
+    if (matches) counts[filler] = matches.length;
+  }
+
+  const likes = text.match(FILLER_LIKE);
+  if (likes) counts.like = likes.length;
+  return counts;
+}
+
+export function computeScriptMetrics(document: ScriptDocument): ScriptMetrics {
+  const spoken = documentSpokenText(document);
+  const words = tokenizeWords(spoken);
+  const wordCount = words.length;
+  const sentences = splitSentences(spoken);
+  const sentenceLengths = sentences.map(sentence => tokenizeWords(sentence).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  const sentenceCount = Math.max(1, sentences.length);
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = wordCount > 0 ? syllables / wordCount : 0;
+
+  const fleschReadingEase = wordCount > 0
+    ? round(Math.min(100, Math.max(0, 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)))
+    : 0;
+  const fleschKincaidGrade = wordCount > 0
+    ? round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59))
+    : 0;
+
+  const fillerWords = countFillers(spoken);
+  const fillerCount = Object.values(fillerWords).reduce((sum, count) => sum + count, 0);
+
+  const sections: SectionMetrics[] = document.sections.map(section => {
+    const sectionWords = tokenizeWords(sectionSpokenText(section)).length;
+    return {
+      title: sectionTitle(section),
+      wordCount: sectionWords,
+      estimatedDuration: secondsForWords(sectionWords),
+    };
+  });
+
+  return {
+    wordCount,
+    estimatedDuration: secondsForWords(wordCount),
+    readabilityScore: wordCount > 0 ? readabilityFromEase(fleschReadingEase) : undefined,
+    fleschReadingEase,
+    fleschKincaidGrade,
+    sentenceLengths: {
+      average: round(sentenceLengths.length > 0 ? wordCount / sentenceLengths.length : 0),
+      longest: sentenceLengths.reduce((max, length) => Math.max(max, length), 0),
+      short: sentenceLengths.filter(length => length <= 10).length,
+      medium: sentenceLengths.filter(length => length > 10 && length <= 20).length,
+      long: sentenceLengths.filter(length => length > 20).length,
+    },
+    fillerWordDensity: wordCount > 0 ? round(fillerCount / wordCount * 100, 2) : 0,
+    fillerWords,
+    sections,
+  };
+}
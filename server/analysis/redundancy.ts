@@ -0,0 +1,118 @@
+import type { RedundancyCluster, RedundancyReport, ScriptDocument, SectionRedundancy } from "@shared/schema";
+import { parseScript } from "@shared/script-document";
+import { documentSpokenText, sectionSpokenText, sectionTitle, splitSentences, tokenizeWords } from "./metrics";
+
+// Measures repetition in a script so refinements can be compared on real numbers
+// rather than a percentage the model makes up.
+
+// Word n-gram length used for phrase repetition
+export const NGRAM_SIZE = 4;
+
+// Word-set overlap (Jaccard) at which two sentences count as near-duplicates
+export const SIMILARITY_THRESHOLD = 0.75;
+
+// Sentences shorter than this are too generic to flag ("Let's get started.")
+const MIN_SENTENCE_WORDS = 4;
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function ngrams(words: string[], size = NGRAM_SIZE): string[] {
+  const result: string[] = [];
+  for (let i = 0; i + size <= words.length; i++) {
+    result.push(words.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+function countOccurrences(items: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function normalizedWords(text: string): string[] {
+  return tokenizeWords(text).map(word => word.toLowerCase());
+}
+
+// Percentage of n-grams in the text that repeat one seen earlier
+export function repeatedNgramRatio(text: string): number {
+  const grams = ngrams(normalizedWords(text));
+  if (grams.length === 0) return 0;
+
+  let repeats = 0;
+  countOccurrences(grams).forEach(count => {
+    repeats += count - 1;
+  });
+  return round(repeats / grams.length * 100);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+// Group sentences that say (nearly) the same thing. Each sentence joins the
+// first cluster whose opening sentence it resembles closely enough.
+export function findDuplicateClusters(text: string): RedundancyCluster[] {
+  const clusters: { words: Set<string>; sentences: string[] }[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const words = normalizedWords(sentence);
+    if (words.length < MIN_SENTENCE_WORDS) continue;
+
+    const wordSet = new Set(words);
+    const match = clusters.find(cluster => jaccard(cluster.words, wordSet) >= SIMILARITY_THRESHOLD);
+    if (match) {
+      match.sentences.push(sentence);
+    } else {
+      clusters.push({ words: wordSet, sentences: [sentence] });
+    }
+  }
+
+  return clusters
+    .filter(cluster => cluster.sentences.length > 1)
+    .map(cluster => ({
+      sentences: Array.from(new Set(cluster.sentences)),
+      occurrences: cluster.sentences.length,
+    }))
+    .sort((a, b) => b.occurrences - a.occurrences);
+}
+
+export function analyzeRedundancy(document: ScriptDocument): RedundancyReport {
+  const spoken = documentSpokenText(document);
+  const scriptCounts = countOccurrences(ngrams(normalizedWords(spoken)));
+
+  // A section's score is the share of its phrases that also occur anywhere else in the script
+  const sections: SectionRedundancy[] = document.sections.map(section => {
+    const grams = ngrams(normalizedWords(sectionSpokenText(section)));
+    const repeated = grams.filter(gram => (scriptCounts.get(gram) ?? 0) > 1).length;
+    return {
+      title: sectionTitle(section),
+      score: grams.length > 0 ? round(repeated / grams.length * 100) : 0,
+    };
+  });
+
+  return {
+    score: repeatedNgramRatio(spoken),
+    clusters: findDuplicateClusters(spoken),
+    sections,
+  };
+}
+
+// Relative drop in repeated phrases from one version to the next, as a
+// percentage. Negative when the revision is more repetitive.
+export function measureRedundancyReduction(originalScript: string, revisedScript: string): number {
+  const before = analyzeRedundancy(parseScript(originalScript)).score;
+  const after = analyzeRedundancy(parseScript(revisedScript)).score;
+  if (before === 0) return 0;
+  return Math.round((before - after) / before * 100);
+}
@@ -0,0 +1,14 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDb>;
+
+// Create a Drizzle client backed by a Neon connection pool
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
@@ -0,0 +1,108 @@
+import { ScriptDocument } from "@shared/schema";
+import { cueText, estimateWordsPerMinute } from "@shared/teleprompter";
+import { tokenizeWords } from "../analysis/metrics";
+
+// Subtitle exports (.srt and .vtt) built from the spoken lines only. Lines are
+// split into cues of at most two 42-character lines, and timed from the
+// section timestamps when present or from the estimated speaking pace.
+
+const MAX_LINE_LENGTH = 42;
+const MAX_LINES_PER_CUE = 2;
+const MIN_CUE_SECONDS = 1;
+const MAX_CUE_SECONDS = 7; // longer slots leave the screen clear until the next cue
+
+interface Caption {
+  start: number; // seconds
+  end: number;
+  lines: string[];
+}
+
+function wrapWords(words: string[]): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// Caption-sized chunks of a spoken line; a cue never spans two sentences
+function splitIntoCues(text: string): string[][] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [text];
+  const cues: string[][] = [];
+
+  for (const sentence of sentences) {
+    const lines = wrapWords(sentence.trim().split(/\s+/).filter(Boolean));
+    for (let i = 0; i < lines.length; i += MAX_LINES_PER_CUE) {
+      cues.push(lines.slice(i, i + MAX_LINES_PER_CUE));
+    }
+  }
+  return cues;
+}
+
+function scriptCaptions(document: ScriptDocument): Caption[] {
+  const wordsPerMinute = estimateWordsPerMinute(document);
+  const captions: Caption[] = [];
+  let clock = 0;
+
+  for (const section of document.sections) {
+    const cues = section.elements
+      .flatMap(element => element.type === "line" ? splitIntoCues(cueText(element.text)) : []);
+    if (cues.length === 0) continue;
+
+    const words = cues.map(lines => Math.max(1, tokenizeWords(lines.join(" ")).length));
+    const totalWords = words.reduce((sum, count) => sum + count, 0);
+
+    // Timed sections spread their cues over the section's own range
+    const start = section.start !== undefined ? Math.max(clock, section.start) : clock;
+    const spoken = totalWords / wordsPerMinute * 60;
+    const duration = section.end !== undefined && section.end > start ? section.end - start : spoken;
+
+    let time = start;
+    cues.forEach((lines, index) => {
+      const slot = Math.max(MIN_CUE_SECONDS, duration * words[index] / totalWords);
+      captions.push({ start: time, end: time + Math.min(slot, MAX_CUE_SECONDS), lines });
+      time += slot;
+    });
+    clock = time;
+  }
+
+  return captions;
+}
+
+// 83.5 seconds -> "00:01:23,500" (SRT) or "00:01:23.500" (WebVTT)
+function formatCueTime(seconds: number, separator: "," | "."): string {
+  const millis = Math.round(seconds * 1000);
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor(millis / 60000) % 60;
+  const secs = Math.floor(millis / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis % 1000, 3)}`;
+}
+
+export function scriptToSrt(document: ScriptDocument): string {
+  return scriptCaptions(document)
+    .map((caption, index) =>
+      `${index + 1}\n${formatCueTime(caption.start, ",")} --> ${formatCueTime(caption.end, ",")}\n${caption.lines.join("\n")}\n`)
+    .join("\n");
+}
+
+// Cue text is parsed for tags and entities, so these characters must be escaped
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function scriptToVtt(document: ScriptDocument, title: string): string {
+  // The header may carry a description, but not a "-->" or a line break
+  const header = `WEBVTT - ${title.replace(/-->/g, "->").replace(/\s+/g, " ")}\n\n`;
+  return header + scriptCaptions(document)
+    .map(caption =>
+      `${formatCueTime(caption.start, ".")} --> ${formatCueTime(caption.end, ".")}\n${caption.lines.map(escapeVttText).join("\n")}\n`)
+    .join("\n");
+}
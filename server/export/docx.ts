@@ -1,173 +1,167 @@
-import { ExportSettings } from "@shared/schema";
-
-// Function to convert script content to HTML format for document export
-export function scriptToHtml(
-  script: string,
-  title: string,
-  settings: ExportSettings,
-  metadata?: Record<string, any>
-): string {
-  let html = `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>${title}</title>
-  <style>
-    body { font-family: Arial, sans-serif; margin: 20px; }
-    h1 { color: #333; }
-    .metadata { color: #666; font-size: 12px; margin-bottom: 20px; }
-    .script { font-family: 'Courier New', monospace; line-height: 1.5; white-space: pre-wrap; }
-    .timestamp { color: #0066cc; font-weight: bold; }
-    .section { font-weight: bold; margin-top: 20px; }
-    .talent-note { color: #cc6600; font-style: italic; }
-  </style>
-</head>
-<body>
-  <h1>${title}</h1>`;
-
-  // Add metadata if needed
-  if (settings.includeMetadata && metadata) {
-    html += `<div class="metadata">`;
-    for (const [key, value] of Object.entries(metadata)) {
-      html += `<div><strong>${key}</strong>: ${value}</div>`;
-    }
-    html += `</div>`;
-  }
-
-  // Format the script content
-  let formattedScript = script;
+import { ExportSettings, ScriptDocument, ScriptDocumentSection, ScriptElement } from "@shared/schema";
+import { formatTimeRange, serializeElement } from "@shared/script-document";
+import { escapeXml, lineRuns, TextRun } from "./runs";
+import { createZip } from "./zip";
+
+// Word (.docx) export: a minimal WordprocessingML package with named styles
+// for sections, timestamps and talent notes, and page numbers in the footer.
+
+const NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const CONTENT_TYPES = `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+</Relationships>`;
+
+function paragraphStyle(id: string, name: string, props: string, runProps = "", basedOn = "Normal"): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="${basedOn}"/><w:qFormat/>` +
+    `<w:pPr>${props}</w:pPr><w:rPr>${runProps}</w:rPr></w:style>`;
+}
 
-  // Process sections if needed
-  if (settings.includeSections) {
-    // Keep section headers as is
-  } else {
-    // Remove section markers (assuming sections are marked with ## in markdown-like format)
-    formattedScript = formattedScript.replace(/^##\s.*$/gm, '');
-  }
+function characterStyle(id: string, name: string, runProps: string): string {
+  return `<w:style w:type="character" w:styleId="${id}"><w:name w:val="${name}"/><w:rPr>${runProps}</w:rPr></w:style>`;
+}
 
-  // Process timestamps if needed
-  if (settings.includeTimestamps) {
-    // Wrap timestamps in spans (assuming timestamps are in format like (0:00-1:00))
-    formattedScript = formattedScript.replace(/\(\d+:\d+(?:-\d+:\d+)?\)/g, match => 
-      `<span class="timestamp">${match}</span>`);
-  } else {
-    // Remove timestamps
-    formattedScript = formattedScript.replace(/\(\d+:\d+(?:-\d+:\d+)?\)/g, '');
-  }
+const STYLES = `${XML_DECLARATION}
+<w:styles ${NAMESPACES}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  ${paragraphStyle("Title", "Title", '<w:spacing w:after="240"/>', '<w:b/><w:sz w:val="40"/>')}
+  ${paragraphStyle("Heading1", "heading 1", '<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>', '<w:b/><w:sz w:val="28"/>')}
+  ${paragraphStyle("Metadata", "Metadata", '<w:spacing w:after="0"/>', '<w:color w:val="666666"/><w:sz w:val="18"/>')}
+  ${paragraphStyle("TalentNote", "Talent Note", "", '<w:i/><w:color w:val="CC6600"/>')}
+  ${paragraphStyle("Direction", "Direction", "", '<w:color w:val="555555"/>')}
+  ${paragraphStyle("OnScreenText", "On-screen Text", "", '<w:color w:val="0066CC"/>')}
+  ${paragraphStyle("Footer", "footer", '<w:jc w:val="center"/>', '<w:color w:val="666666"/><w:sz w:val="18"/>')}
+  ${characterStyle("Timestamp", "Timestamp", '<w:b/><w:color w:val="0066CC"/>')}
+  ${characterStyle("Speaker", "Speaker", "<w:b/>")}
+  ${characterStyle("TalentCue", "Talent Cue", '<w:i/><w:color w:val="CC6600"/>')}
+</w:styles>`;
+
+const FOOTER = `${XML_DECLARATION}
+<w:ftr ${NAMESPACES}>
+  <w:p>
+    <w:pPr><w:pStyle w:val="Footer"/></w:pPr>
+    <w:r><w:t xml:space="preserve">Page </w:t></w:r>
+    <w:fldSimple w:instr=" PAGE "><w:r><w:t>1</w:t></w:r></w:fldSimple>
+    <w:r><w:t xml:space="preserve"> of </w:t></w:r>
+    <w:fldSimple w:instr=" NUMPAGES "><w:r><w:t>1</w:t></w:r></w:fldSimple>
+  </w:p>
+</w:ftr>`;
+
+function coreProperties(title: string): string {
+  return `${XML_DECLARATION}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(title)}</dc:title>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>
+</cp:coreProperties>`;
+}
 
-  // Format for talent if needed
-  if (settings.formatForTalent) {
-    // Add emphasis and pause markers
-    formattedScript = formattedScript
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold text
-      .replace(/\*(.*?)\*/g, '<em>$1</em>') // Italic text
-      .replace(/\[pause\]/gi, '<span class="talent-note">[PAUSE]</span>')
-      .replace(/\[emphasis\]/gi, '<span class="talent-note">[EMPHASIS]</span>');
-  }
+function run(text: string, runProps = ""): string {
+  return `<w:r>${runProps ? `<w:rPr>${runProps}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
 
-  // Add the formatted script to the HTML
-  html += `<div class="script">${formattedScript}</div>
-</body>
-</html>`;
+function formattedRun({ text, bold, italic, cue }: TextRun): string {
+  if (cue) return run(text, '<w:rStyle w:val="TalentCue"/>');
+  return run(text, `${bold ? "<w:b/>" : ""}${italic ? "<w:i/>" : ""}`);
+}
 
-  return html;
+function paragraph(content: string, style?: string): string {
+  return `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ""}${content}</w:p>`;
 }
 
-// Function to convert script to plain text format
-export function scriptToText(
-  script: string,
-  title: string,
-  settings: ExportSettings,
-  metadata?: Record<string, any>
-): string {
-  let text = `${title}\n`;
-  text += "=".repeat(title.length) + "\n\n";
+function sectionHeading(section: ScriptDocumentSection, settings: ExportSettings): string {
+  const range = settings.includeTimestamps ? formatTimeRange(section) : "";
+  const timestamp = range ? run(" ") + run(`(${range})`, '<w:rStyle w:val="Timestamp"/>') : "";
+  return paragraph(run(section.title) + timestamp, "Heading1");
+}
 
-  // Add metadata if needed
-  if (settings.includeMetadata && metadata) {
-    for (const [key, value] of Object.entries(metadata)) {
-      text += `${key}: ${value}\n`;
+function elementParagraph(element: ScriptElement, settings: ExportSettings): string {
+  switch (element.type) {
+    case "line": {
+      const speaker = element.speaker ? run(`${element.speaker}: `, '<w:rStyle w:val="Speaker"/>') : "";
+      return paragraph(speaker + lineRuns(element.text, settings.formatForTalent).map(formattedRun).join(""));
     }
-    text += "\n";
-  }
-
-  // Format the script content
-  let formattedScript = script;
-
-  // Process sections if needed
-  if (!settings.includeSections) {
-    // Remove section markers
-    formattedScript = formattedScript.replace(/^##\s.*$/gm, '');
-  }
-
-  // Process timestamps if needed
-  if (!settings.includeTimestamps) {
-    // Remove timestamps
-    formattedScript = formattedScript.replace(/\(\d+:\d+(?:-\d+:\d+)?\)/g, '');
+    case "talent_note":
+      return paragraph(run(serializeElement(element)), "TalentNote");
+    case "on_screen_text":
+      return paragraph(run(serializeElement(element)), "OnScreenText");
+    case "direction":
+      return paragraph(run(serializeElement(element)), "Direction");
   }
-
-  // Add the formatted script to the text
-  text += formattedScript;
-
-  return text;
 }
 
-// Function to convert script to markdown format
-export function scriptToMarkdown(
-  script: string,
+function documentXml(
+  document: ScriptDocument,
   title: string,
   settings: ExportSettings,
   metadata?: Record<string, any>
 ): string {
-  let markdown = `# ${title}\n\n`;
+  const body: string[] = [paragraph(run(title), "Title")];
 
-  // Add metadata if needed
   if (settings.includeMetadata && metadata) {
-    markdown += "## Metadata\n\n";
     for (const [key, value] of Object.entries(metadata)) {
-      markdown += `**${key}**: ${value}\n`;
+      body.push(paragraph(run(`${key}: `, "<w:b/>") + run(String(value)), "Metadata"));
     }
-    markdown += "\n";
-  }
-
-  // Format the script content
-  let formattedScript = script;
-
-  // Process sections if needed
-  if (!settings.includeSections && formattedScript.includes("##")) {
-    // Convert section markers to plain text if they should be kept but not as markdown headers
-    formattedScript = formattedScript.replace(/^##\s(.*?)$/gm, '**$1**');
+    body.push(paragraph(""));
   }
 
-  // Process timestamps if needed
-  if (!settings.includeTimestamps) {
-    // Remove timestamps
-    formattedScript = formattedScript.replace(/\(\d+:\d+(?:-\d+:\d+)?\)/g, '');
+  for (const section of document.sections) {
+    if (settings.includeSections && section.title) {
+      body.push(sectionHeading(section, settings));
+    }
+    for (const element of section.elements) {
+      body.push(elementParagraph(element, settings));
+    }
   }
 
-  // Add the formatted script to the markdown
-  markdown += formattedScript;
+  // US Letter with one-inch margins
+  const sectionProps =
+    '<w:sectPr><w:footerReference w:type="default" r:id="rId2"/>' +
+    '<w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>';
 
-  return markdown;
+  return `${XML_DECLARATION}
+<w:document ${NAMESPACES}><w:body>${body.join("")}${sectionProps}</w:body></w:document>`;
 }
 
-// Main export function to generate document content based on format
-export function exportScript(
-  script: string,
+export function scriptToDocx(
+  document: ScriptDocument,
   title: string,
-  format: string,
   settings: ExportSettings,
   metadata?: Record<string, any>
-): string {
-  switch (format) {
-    case 'google_docs':
-    case 'word':
-      return scriptToHtml(script, title, settings, metadata);
-    case 'text':
-      return scriptToText(script, title, settings, metadata);
-    case 'markdown':
-      return scriptToMarkdown(script, title, settings, metadata);
-    default:
-      throw new Error(`Unsupported export format: ${format}`);
-  }
+): Buffer {
+  return createZip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES },
+    { name: "_rels/.rels", data: PACKAGE_RELS },
+    { name: "docProps/core.xml", data: coreProperties(title) },
+    { name: "word/_rels/document.xml.rels", data: DOCUMENT_RELS },
+    { name: "word/document.xml", data: documentXml(document, title, settings, metadata) },
+    { name: "word/styles.xml", data: STYLES },
+    { name: "word/footer1.xml", data: FOOTER },
+  ]);
 }
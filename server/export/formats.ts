@@ -0,0 +1,241 @@
+import { ExportSettings, ScriptDocument, ScriptDocumentSection, ScriptElement } from "@shared/schema";
+import { formatTimeRange, serializeElement } from "@shared/script-document";
+import { estimateWordsPerMinute, scrollSpeedHint, teleprompterSections, teleprompterWordCount } from "@shared/teleprompter";
+import { scriptToSrt, scriptToVtt } from "./captions";
+import { scriptToDocx } from "./docx";
+import { scriptToFountain } from "./fountain";
+import { scriptToOdt } from "./odt";
+import { scriptToPdf } from "./pdf";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Section title with its time range when timestamps are included
+function sectionHeading(section: ScriptDocumentSection, settings: ExportSettings): string {
+  const range = settings.includeTimestamps ? formatTimeRange(section) : "";
+  return range ? `${section.title} (${range})` : section.title;
+}
+
+// Render one script element as HTML
+function elementToHtml(element: ScriptElement, settings: ExportSettings): string {
+  switch (element.type) {
+    case 'line': {
+      let text = escapeHtml(element.text);
+      if (settings.formatForTalent) {
+        // Add emphasis and pause markers
+        text = text
+          .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold text
+          .replace(/\*(.*?)\*/g, '<em>$1</em>') // Italic text
+          .replace(/\[pause\]/gi, '<span class="talent-note">[PAUSE]</span>')
+          .replace(/\[emphasis\]/gi, '<span class="talent-note">[EMPHASIS]</span>');
+      }
+      const speaker = element.speaker ? `<span class="speaker">${escapeHtml(element.speaker)}:</span> ` : '';
+      return `<p class="line">${speaker}${text}</p>`;
+    }
+    case 'talent_note':
+      return `<p class="talent-note">${escapeHtml(serializeElement(element))}</p>`;
+    case 'on_screen_text':
+      return `<p class="on-screen">${escapeHtml(serializeElement(element))}</p>`;
+    case 'direction':
+      return `<p class="direction">${escapeHtml(serializeElement(element))}</p>`;
+  }
+}
+
+// Function to convert script content to HTML format for document export
+export function scriptToHtml(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): string {
+  let html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 20px; }
+    h1 { color: #333; }
+    .metadata { color: #666; font-size: 12px; margin-bottom: 20px; }
+    .script { font-family: 'Courier New', monospace; line-height: 1.5; }
+    .script p { margin: 0 0 6px; }
+    .timestamp { color: #0066cc; font-weight: bold; }
+    .section { font-weight: bold; margin-top: 20px; }
+    .speaker { font-weight: bold; }
+    .talent-note { color: #cc6600; font-style: italic; }
+    .direction, .on-screen { color: #555; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>`;
+
+  // Add metadata if needed
+  if (settings.includeMetadata && metadata) {
+    html += `<div class="metadata">`;
+    for (const [key, value] of Object.entries(metadata)) {
+      html += `<div><strong>${key}</strong>: ${escapeHtml(String(value))}</div>`;
+    }
+    html += `</div>`;
+  }
+
+  html += `<div class="script">`;
+  for (const section of document.sections) {
+    // Section headers, with timestamps if requested
+    if (settings.includeSections && section.title) {
+      const range = settings.includeTimestamps ? formatTimeRange(section) : '';
+      html += `<div class="section">${escapeHtml(section.title)}${range ? ` <span class="timestamp">(${range})</span>` : ''}</div>`;
+    }
+    for (const element of section.elements) {
+      html += elementToHtml(element, settings);
+    }
+  }
+  html += `</div>
+</body>
+</html>`;
+
+  return html;
+}
+
+// Function to convert script to plain text format
+export function scriptToText(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): string {
+  let text = `${title}\n`;
+  text += "=".repeat(title.length) + "\n\n";
+
+  // Add metadata if needed
+  if (settings.includeMetadata && metadata) {
+    for (const [key, value] of Object.entries(metadata)) {
+      text += `${key}: ${value}\n`;
+    }
+    text += "\n";
+  }
+
+  // Format the script content
+  text += document.sections.map(section => {
+    const lines = section.elements.map(serializeElement);
+    if (settings.includeSections && section.title) {
+      lines.unshift(`## ${sectionHeading(section, settings)}`);
+    }
+    return lines.join("\n");
+  }).join("\n\n");
+
+  return text;
+}
+
+// Function to convert script to markdown format
+export function scriptToMarkdown(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): string {
+  let markdown = `# ${title}\n\n`;
+
+  // Add metadata if needed
+  if (settings.includeMetadata && metadata) {
+    markdown += "## Metadata\n\n";
+    for (const [key, value] of Object.entries(metadata)) {
+      markdown += `**${key}**: ${value}\n`;
+    }
+    markdown += "\n";
+  }
+
+  // Format the script content
+  markdown += document.sections.map(section => {
+    const lines = section.elements.map(element => {
+      if (element.type === 'line') {
+        return element.speaker ? `**${element.speaker}:** ${element.text}` : element.text;
+      }
+      return `*${serializeElement(element)}*`;
+    });
+
+    // Sections become headers, or bold lines when they should not be markdown headers
+    if (section.title) {
+      const heading = sectionHeading(section, settings);
+      lines.unshift(settings.includeSections ? `## ${heading}` : `**${heading}**`);
+    }
+    return lines.join("\n\n");
+  }).join("\n\n");
+
+  return markdown;
+}
+
+// Teleprompter cue text: spoken lines only, headed by the scroll speed to run it at
+export function scriptToTeleprompter(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings
+): string {
+  const sections = teleprompterSections(document, settings.formatForTalent);
+  const wordsPerMinute = estimateWordsPerMinute(document);
+
+  let text = `${title}\n`;
+  text += `Scroll speed: ${scrollSpeedHint(wordsPerMinute, teleprompterWordCount(sections))}\n\n`;
+
+  text += sections.map(section => {
+    const lines = [...section.lines];
+    if (settings.includeSections && section.title) {
+      lines.unshift(`--- ${section.title.toUpperCase()} ---`);
+    }
+    return lines.join("\n\n");
+  }).join("\n\n\n");
+
+  return `${text}\n`;
+}
+
+// Content type and file extension served for each export format
+export const EXPORT_FILE_TYPES: Record<ExportSettings["format"], { contentType: string; extension: string }> = {
+  // Google Drive converts an uploaded .docx into a Google Doc
+  google_docs: { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  word: { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  odt: { contentType: 'application/vnd.oasis.opendocument.text', extension: 'odt' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  text: { contentType: 'text/plain', extension: 'txt' },
+  markdown: { contentType: 'text/markdown', extension: 'md' },
+  teleprompter: { contentType: 'text/plain', extension: 'txt' },
+  srt: { contentType: 'application/x-subrip', extension: 'srt' },
+  vtt: { contentType: 'text/vtt', extension: 'vtt' },
+  fountain: { contentType: 'text/plain', extension: 'fountain' },
+};
+
+// Main export function to generate document content based on format
+export function exportScript(
+  document: ScriptDocument,
+  title: string,
+  format: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): string | Buffer {
+  switch (format) {
+    case 'google_docs':
+    case 'word':
+      return scriptToDocx(document, title, settings, metadata);
+    case 'odt':
+      return scriptToOdt(document, title, settings, metadata);
+    case 'pdf':
+      return scriptToPdf(document, title, settings, metadata);
+    case 'text':
+      return scriptToText(document, title, settings, metadata);
+    case 'markdown':
+      return scriptToMarkdown(document, title, settings, metadata);
+    case 'teleprompter':
+      return scriptToTeleprompter(document, title, settings);
+    case 'srt':
+      return scriptToSrt(document);
+    case 'vtt':
+      return scriptToVtt(document, title);
+    case 'fountain':
+      return scriptToFountain(document, title, settings, metadata);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -0,0 +1,101 @@
+import { ExportSettings, ScriptDocument, ScriptDocumentSection } from "@shared/schema";
+import { formatTimeRange, serializeElement } from "@shared/script-document";
+
+// Fountain screenplay export (https://fountain.io): sections become scene
+// headings, spoken lines dialogue and talent notes parentheticals. Lines
+// without a speaker are given to the host character.
+
+export const HOST_CHARACTER = "HOST";
+
+// Fountain reads an all-caps line before dialogue as a character, so force it to stay action
+function action(text: string): string {
+  return /[a-z]/.test(text) ? text : `!${text}`;
+}
+
+function character(speaker: string | undefined): string {
+  const name = (speaker ?? HOST_CHARACTER).toUpperCase();
+  // Names without a letter must be forced with "@"
+  return /[A-Z]/.test(name) ? name : `@${name}`;
+}
+
+// Talent-formatted lines keep *italic* and **bold**, which Fountain shares with
+// markdown; otherwise emphasis markup and delivery cues are removed
+function dialogueText(text: string, settings: ExportSettings): string {
+  if (settings.formatForTalent) return text;
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/\*(.+?)\*/g, "$1")
+    .replace(/\s*\[(pause|emphasis)\]\s*/gi, " ")
+    .trim();
+}
+
+function sceneHeading(section: ScriptDocumentSection, settings: ExportSettings): string {
+  const range = settings.includeTimestamps ? formatTimeRange(section) : "";
+  // A leading "." forces a scene heading that does not start with INT./EXT.
+  return `.${section.title.toUpperCase()}${range ? ` (${range})` : ""}`;
+}
+
+function sectionBlocks(section: ScriptDocumentSection, settings: ExportSettings): string[] {
+  const blocks: string[] = [];
+  let dialogue: { character: string; lines: string[] } | undefined;
+  let notes: string[] = []; // talent notes waiting for the next spoken line
+
+  const flush = () => {
+    if (dialogue) blocks.push([dialogue.character, ...dialogue.lines].join("\n"));
+    dialogue = undefined;
+  };
+
+  for (const element of section.elements) {
+    switch (element.type) {
+      case "line": {
+        const name = character(element.speaker);
+        if (dialogue?.character !== name) {
+          flush();
+          dialogue = { character: name, lines: [] };
+        }
+        dialogue.lines.push(...notes.map(note => `(${note})`), dialogueText(element.text, settings));
+        notes = [];
+        break;
+      }
+      case "talent_note":
+        notes.push(element.text);
+        break;
+      case "on_screen_text":
+        flush();
+        blocks.push(`> ${element.text} <`);
+        break;
+      case "direction":
+        flush();
+        // Drop the brackets around the labelled direction, e.g. "B-roll: ..."
+        blocks.push(action(serializeElement(element).slice(1, -1)));
+        break;
+    }
+  }
+  flush();
+
+  // Notes with no line after them stay visible as Fountain notes
+  blocks.push(...notes.map(note => `[[${note}]]`));
+  return blocks;
+}
+
+export function scriptToFountain(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): string {
+  // Title page: Title first, then any other key: value pairs
+  const titlePage = [`Title: ${title}`];
+  if (settings.includeMetadata && metadata) {
+    for (const [key, value] of Object.entries(metadata)) {
+      titlePage.push(`${key}: ${value}`);
+    }
+  }
+
+  const body = document.sections.flatMap(section => {
+    const blocks = sectionBlocks(section, settings);
+    return settings.includeSections && section.title ? [sceneHeading(section, settings), ...blocks] : blocks;
+  });
+
+  return `${titlePage.join("\n")}\n\n${body.join("\n\n")}\n`;
+}
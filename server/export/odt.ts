@@ -0,0 +1,162 @@
+import { ExportSettings, ScriptDocument, ScriptDocumentSection, ScriptElement } from "@shared/schema";
+import { formatTimeRange, serializeElement } from "@shared/script-document";
+import { escapeXml, lineRuns, TextRun } from "./runs";
+import { createZip } from "./zip";
+
+// OpenDocument text (.odt) export with the same styles as the Word export
+
+const MIMETYPE = "application/vnd.oasis.opendocument.text";
+
+const NAMESPACES =
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" ' +
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" ' +
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0" ' +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0" ' +
+  'office:version="1.2"';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const MANIFEST = `${XML_DECLARATION}
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+  <manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${MIMETYPE}"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+  <manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+  <manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`;
+
+function paragraphStyle(name: string, displayName: string, paragraphProps: string, textProps: string, extra = ""): string {
+  return `<style:style style:name="${name}" style:display-name="${displayName}" style:family="paragraph" style:parent-style-name="Standard"${extra}>` +
+    `<style:paragraph-properties ${paragraphProps}/><style:text-properties ${textProps}/></style:style>`;
+}
+
+function textStyle(name: string, displayName: string, textProps: string): string {
+  return `<style:style style:name="${name}" style:display-name="${displayName}" style:family="text"><style:text-properties ${textProps}/></style:style>`;
+}
+
+const STYLES = `${XML_DECLARATION}
+<office:document-styles ${NAMESPACES}>
+  <office:styles>
+    <style:style style:name="Standard" style:family="paragraph">
+      <style:paragraph-properties fo:margin-bottom="0.08in"/>
+      <style:text-properties style:font-name="Arial" fo:font-family="Arial" fo:font-size="11pt"/>
+    </style:style>
+    ${paragraphStyle("Title", "Title", 'fo:margin-bottom="0.17in"', 'fo:font-size="20pt" fo:font-weight="bold"')}
+    ${paragraphStyle("Heading_20_1", "Heading 1", 'fo:margin-top="0.25in" fo:margin-bottom="0.08in" fo:keep-with-next="always"', 'fo:font-size="14pt" fo:font-weight="bold"', ' style:default-outline-level="1"')}
+    ${paragraphStyle("Metadata", "Metadata", 'fo:margin-bottom="0in"', 'fo:font-size="9pt" fo:color="#666666"')}
+    ${paragraphStyle("Talent_20_Note", "Talent Note", "", 'fo:font-style="italic" fo:color="#cc6600"')}
+    ${paragraphStyle("Direction", "Direction", "", 'fo:color="#555555"')}
+    ${paragraphStyle("On_2d_screen_20_Text", "On-screen Text", "", 'fo:color="#0066cc"')}
+    ${paragraphStyle("Footer", "Footer", 'fo:text-align="center"', 'fo:font-size="9pt" fo:color="#666666"')}
+    ${textStyle("Timestamp", "Timestamp", 'fo:font-weight="bold" fo:color="#0066cc"')}
+    ${textStyle("Speaker", "Speaker", 'fo:font-weight="bold"')}
+    ${textStyle("Talent_20_Cue", "Talent Cue", 'fo:font-style="italic" fo:color="#cc6600"')}
+    ${textStyle("Strong_20_Emphasis", "Strong Emphasis", 'fo:font-weight="bold"')}
+    ${textStyle("Emphasis", "Emphasis", 'fo:font-style="italic"')}
+  </office:styles>
+  <office:automatic-styles>
+    <style:page-layout style:name="Letter">
+      <style:page-layout-properties fo:page-width="8.5in" fo:page-height="11in" fo:margin-top="1in" fo:margin-bottom="0.5in" fo:margin-left="1in" fo:margin-right="1in"/>
+      <style:footer-style><style:header-footer-properties fo:min-height="0.5in"/></style:footer-style>
+    </style:page-layout>
+  </office:automatic-styles>
+  <office:master-styles>
+    <style:master-page style:name="Standard" style:page-layout-name="Letter">
+      <style:footer>
+        <text:p text:style-name="Footer">Page <text:page-number text:select-page="current">1</text:page-number> of <text:page-count>1</text:page-count></text:p>
+      </style:footer>
+    </style:master-page>
+  </office:master-styles>
+</office:document-styles>`;
+
+function meta(title: string): string {
+  return `${XML_DECLARATION}
+<office:document-meta ${NAMESPACES}>
+  <office:meta>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <meta:creation-date>${new Date().toISOString().replace(/\.\d+Z$/, "")}</meta:creation-date>
+  </office:meta>
+</office:document-meta>`;
+}
+
+function span(text: string, style?: string): string {
+  const escaped = escapeXml(text);
+  return style ? `<text:span text:style-name="${style}">${escaped}</text:span>` : escaped;
+}
+
+function formattedSpan({ text, bold, italic, cue }: TextRun): string {
+  if (cue) return span(text, "Talent_20_Cue");
+  if (bold) return span(text, "Strong_20_Emphasis");
+  if (italic) return span(text, "Emphasis");
+  return span(text);
+}
+
+function paragraph(content: string, style = "Standard"): string {
+  return `<text:p text:style-name="${style}">${content}</text:p>`;
+}
+
+function sectionHeading(section: ScriptDocumentSection, settings: ExportSettings): string {
+  const range = settings.includeTimestamps ? formatTimeRange(section) : "";
+  const timestamp = range ? ` ${span(`(${range})`, "Timestamp")}` : "";
+  return `<text:h text:style-name="Heading_20_1" text:outline-level="1">${span(section.title)}${timestamp}</text:h>`;
+}
+
+function elementParagraph(element: ScriptElement, settings: ExportSettings): string {
+  switch (element.type) {
+    case "line": {
+      const speaker = element.speaker ? span(`${element.speaker}: `, "Speaker") : "";
+      return paragraph(speaker + lineRuns(element.text, settings.formatForTalent).map(formattedSpan).join(""));
+    }
+    case "talent_note":
+      return paragraph(span(serializeElement(element)), "Talent_20_Note");
+    case "on_screen_text":
+      return paragraph(span(serializeElement(element)), "On_2d_screen_20_Text");
+    case "direction":
+      return paragraph(span(serializeElement(element)), "Direction");
+  }
+}
+
+function contentXml(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): string {
+  const body: string[] = [paragraph(span(title), "Title")];
+
+  if (settings.includeMetadata && metadata) {
+    for (const [key, value] of Object.entries(metadata)) {
+      body.push(paragraph(span(`${key}: `, "Strong_20_Emphasis") + span(String(value)), "Metadata"));
+    }
+    body.push(paragraph(""));
+  }
+
+  for (const section of document.sections) {
+    if (settings.includeSections && section.title) {
+      body.push(sectionHeading(section, settings));
+    }
+    for (const element of section.elements) {
+      body.push(elementParagraph(element, settings));
+    }
+  }
+
+  return `${XML_DECLARATION}
+<office:document-content ${NAMESPACES}><office:body><office:text>${body.join("")}</office:text></office:body></office:document-content>`;
+}
+
+export function scriptToOdt(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): Buffer {
+  // The mimetype entry must come first and be stored uncompressed
+  return createZip([
+    { name: "mimetype", data: MIMETYPE, store: true },
+    { name: "META-INF/manifest.xml", data: MANIFEST },
+    { name: "meta.xml", data: meta(title) },
+    { name: "styles.xml", data: STYLES },
+    { name: "content.xml", data: contentXml(document, title, settings, metadata) },
+  ]);
+}
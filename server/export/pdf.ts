@@ -0,0 +1,354 @@
+import { ExportSettings, ScriptDocument, ScriptDocumentSection, ScriptElement } from "@shared/schema";
+import { formatTimeRange, formatTimestamp } from "@shared/script-document";
+import { tokenizeWords, WORDS_PER_MINUTE } from "../analysis/metrics";
+
+// PDF export in the two-column audio/visual layout: visuals and B-roll on the
+// left, narration on the right, with a running timestamp for each row. The
+// writer only uses the built-in Courier fonts, whose fixed glyph width makes
+// line wrapping exact without embedding font metrics.
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_TOP = 724;
+const CONTENT_BOTTOM = 60;
+
+const FONT_SIZE = 10;
+const LEADING = 12.5;
+const CHAR_WIDTH = 0.6; // Courier glyph width per point of font size
+
+const TIME_COLUMN = { x: MARGIN, width: 44 };
+const VIDEO_COLUMN = { x: 104, width: 198 };
+const AUDIO_COLUMN = { x: 316, width: PAGE_WIDTH - MARGIN - 316 };
+
+type Font = "regular" | "bold" | "italic";
+type Color = [number, number, number];
+
+const FONT_NAMES: Record<Font, string> = { regular: "F1", bold: "F2", italic: "F3" };
+const GREY: Color = [0.4, 0.4, 0.4];
+const BLUE: Color = [0, 0.4, 0.8];
+const ORANGE: Color = [0.8, 0.4, 0];
+
+interface Line {
+  text: string;
+  font: Font;
+  color?: Color;
+}
+
+// One row of the A/V table: what is on screen next to what is heard
+interface Row {
+  video: Line[];
+  audio: Line[];
+  spokenWords: number;
+}
+
+export type PdfLayout = "av" | "shooting";
+
+// Replace characters outside the standard fonts' encoding and escape the rest
+function pdfString(text: string): string {
+  const latin = text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\x20-\xff]/g, "?");
+  return `(${latin.replace(/[\\()]/g, "\\$&")})`;
+}
+
+function wrap(text: string, width: number, size = FONT_SIZE): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * CHAR_WIDTH)));
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    // Break words longer than a whole line
+    let rest = word;
+    while (rest.length > maxChars) {
+      if (current) lines.push(current);
+      lines.push(rest.slice(0, maxChars));
+      current = "";
+      rest = rest.slice(maxChars);
+    }
+
+    if (!current) current = rest;
+    else if (current.length + 1 + rest.length <= maxChars) current += ` ${rest}`;
+    else {
+      lines.push(current);
+      current = rest;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function wrapped(text: string, width: number, font: Font, color?: Color): Line[] {
+  return wrap(text, width).map(line => ({ text: line, font, color }));
+}
+
+const VIDEO_LABELS: Partial<Record<string, string>> = {
+  b_roll: "B-ROLL",
+  camera: "CAMERA",
+};
+
+// Group a section's elements into rows; visuals that follow narration start a new row
+function sectionRows(section: ScriptDocumentSection, settings: ExportSettings, shotPrefix?: string): Row[] {
+  const rows: Row[] = [];
+  let row: Row = { video: [], audio: [], spokenWords: 0 };
+  let shot = 0;
+
+  const addVideo = (text: string, color?: Color) => {
+    if (row.audio.length > 0) {
+      rows.push(row);
+      row = { video: [], audio: [], spokenWords: 0 };
+    }
+    if (row.video.length > 0) row.video.push({ text: "", font: "regular" });
+
+    // Shooting scripts number every shot within the scene: 1A, 1B, ...
+    const label = shotPrefix !== undefined ? `${shotPrefix}${String.fromCharCode(65 + (shot++ % 26))}. ` : "";
+    row.video.push(...wrapped(`${label}${text}`, VIDEO_COLUMN.width, "regular", color));
+  };
+
+  const addAudio = (lines: Line[]) => {
+    if (row.audio.length > 0) row.audio.push({ text: "", font: "regular" });
+    row.audio.push(...lines);
+  };
+
+  for (const element of section.elements) {
+    switch (element.type) {
+      case "direction":
+        if (element.kind === "sfx" || element.kind === "music") {
+          addAudio(wrapped(`${element.kind.toUpperCase()}: ${element.text}`, AUDIO_COLUMN.width, "regular", GREY));
+        } else {
+          const label = VIDEO_LABELS[element.kind];
+          addVideo(label ? `${label}: ${element.text}` : element.text);
+        }
+        break;
+      case "on_screen_text":
+        addVideo(`ON SCREEN: ${element.text}`, BLUE);
+        break;
+      case "talent_note":
+        addAudio(wrapped(`(${element.text})`, AUDIO_COLUMN.width, "italic", ORANGE));
+        break;
+      case "line":
+        addAudio([
+          ...(element.speaker ? [{ text: element.speaker.toUpperCase(), font: "bold" as Font }] : []),
+          ...wrapped(spokenLine(element, settings), AUDIO_COLUMN.width, "regular"),
+        ]);
+        row.spokenWords += tokenizeWords(element.text).length;
+        break;
+    }
+  }
+  if (row.video.length > 0 || row.audio.length > 0) rows.push(row);
+
+  return rows;
+}
+
+function spokenLine(element: Extract<ScriptElement, { type: "line" }>, settings: ExportSettings): string {
+  if (!settings.formatForTalent) return element.text;
+  return element.text
+    .replace(/\*\*(.*?)\*\*/g, (_, text: string) => text.toUpperCase())
+    .replace(/\*(.*?)\*/g, "$1")
+    .replace(/\[(pause|emphasis)\]/gi, (_, cue: string) => `[${cue.toUpperCase()}]`);
+}
+
+// Collects the drawing operators of each page
+class PageBuilder {
+  pages: string[][] = [];
+  y = CONTENT_TOP;
+
+  constructor(private onNewPage: (builder: PageBuilder) => void) {}
+
+  get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = CONTENT_TOP;
+    this.onNewPage(this);
+  }
+
+  // Start a new page unless `height` still fits on this one
+  ensureSpace(height: number) {
+    if (this.pages.length === 0 || this.y - height < CONTENT_BOTTOM) this.newPage();
+  }
+
+  text(x: number, y: number, text: string, font: Font = "regular", size = FONT_SIZE, color?: Color) {
+    const fill = color ? `${color.join(" ")} rg ` : "";
+    this.ops.push(`${fill}BT /${FONT_NAMES[font]} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET${color ? " 0 g" : ""}`);
+  }
+
+  rule(x1: number, x2: number, y: number, grey = 0.75) {
+    this.ops.push(`${grey} G 0.5 w ${x1} ${y.toFixed(2)} m ${x2} ${y.toFixed(2)} l S 0 G`);
+  }
+}
+
+function layoutPages(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  layout: PdfLayout,
+  metadata?: Record<string, any>,
+): string[][] {
+  const draft = metadata?.["Draft"] ? String(metadata["Draft"]) : "";
+  const heading = layout === "shooting" ? `SHOOTING SCRIPT - ${title}` : title;
+
+  const columnHeadings = (builder: PageBuilder) => {
+    builder.text(VIDEO_COLUMN.x, builder.y, "VIDEO", "bold", 9, GREY);
+    builder.text(AUDIO_COLUMN.x, builder.y, "AUDIO", "bold", 9, GREY);
+    builder.y -= 4;
+    builder.rule(MARGIN, PAGE_WIDTH - MARGIN, builder.y, 0.4);
+    builder.y -= LEADING + 2;
+  };
+
+  const builder = new PageBuilder((page) => {
+    // Running header with the title and the draft on every page
+    const headerY = PAGE_HEIGHT - 36;
+    page.text(MARGIN, headerY, wrap(heading, 340, 9)[0] ?? "", "bold", 9);
+    if (draft) {
+      page.text(PAGE_WIDTH - MARGIN - draft.length * 9 * CHAR_WIDTH, headerY, draft, "regular", 9);
+    }
+    page.rule(MARGIN, PAGE_WIDTH - MARGIN, headerY - 6);
+
+    if (page.pages.length > 1) columnHeadings(page);
+  });
+
+  // Title block and metadata on the first page
+  builder.newPage();
+  for (const line of wrap(title, PAGE_WIDTH - 2 * MARGIN, 16)) {
+    builder.text((PAGE_WIDTH - line.length * 16 * CHAR_WIDTH) / 2, builder.y, line, "bold", 16);
+    builder.y -= 20;
+  }
+  if (settings.includeMetadata && metadata) {
+    builder.y -= 4;
+    for (const [key, value] of Object.entries(metadata)) {
+      builder.text(MARGIN, builder.y, `${key}: ${value}`, "regular", 8, GREY);
+      builder.y -= 11;
+    }
+  }
+  builder.y -= 10;
+  columnHeadings(builder);
+
+  let clock = 0; // seconds of narration before the current row
+  document.sections.forEach((section, index) => {
+    if (section.start !== undefined) clock = section.start;
+
+    if (layout === "shooting" && index > 0) builder.newPage();
+
+    if (settings.includeSections && section.title) {
+      const range = settings.includeTimestamps ? formatTimeRange(section) : "";
+      const label = layout === "shooting" ? `SCENE ${index + 1}: ${section.title}` : section.title;
+      builder.ensureSpace(LEADING * 3);
+      builder.y -= 4;
+      builder.text(MARGIN, builder.y, `${label.toUpperCase()}${range ? `  (${range})` : ""}`, "bold", 11);
+      if (layout === "shooting") {
+        const number = String(index + 1);
+        builder.text(PAGE_WIDTH - MARGIN - number.length * 11 * CHAR_WIDTH, builder.y, number, "bold", 11);
+      }
+      builder.y -= LEADING + 4;
+    }
+
+    const shotPrefix = layout === "shooting" ? String(index + 1) : undefined;
+    for (const row of sectionRows(section, settings, shotPrefix)) {
+      const height = Math.max(row.video.length, row.audio.length);
+      builder.ensureSpace(LEADING * Math.min(height, 3));
+
+      if (settings.includeTimestamps) {
+        builder.text(TIME_COLUMN.x, builder.y, formatTimestamp(clock), "regular", 8, BLUE);
+      }
+
+      // Draw both columns line by line so a long row can continue on the next page
+      for (let i = 0; i < height; i++) {
+        builder.ensureSpace(LEADING);
+        const video = row.video[i];
+        const audio = row.audio[i];
+        if (video?.text) builder.text(VIDEO_COLUMN.x, builder.y, video.text, video.font, FONT_SIZE, video.color);
+        if (audio?.text) builder.text(AUDIO_COLUMN.x, builder.y, audio.text, audio.font, FONT_SIZE, audio.color);
+        builder.y -= LEADING;
+      }
+
+      builder.rule(MARGIN, PAGE_WIDTH - MARGIN, builder.y + LEADING - 4, 0.9);
+      builder.y -= 6;
+      clock += (row.spokenWords / WORDS_PER_MINUTE) * 60;
+    }
+  });
+
+  return builder.pages;
+}
+
+// Serialize pages into a PDF file with the three Courier fonts
+function writePdf(pages: string[][], title: string): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(Buffer.isBuffer(body) ? body : Buffer.from(body, "latin1"));
+    return objects.length;
+  };
+
+  const catalogId = add(""); // filled in once the page tree exists
+  const pagesId = add("");
+  const fontIds = (["Courier", "Courier-Bold", "Courier-Oblique"]).map(name =>
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`));
+  const resources = `<< /Font << ${fontIds.map((id, i) => `/F${i + 1} ${id} 0 R`).join(" ")} >> >>`;
+
+  const pageIds = pages.map((ops, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`;
+    const footerX = (PAGE_WIDTH - footer.length * 8 * CHAR_WIDTH) / 2;
+    const stream = Buffer.from(
+      [...ops, `0.4 g BT /F1 8 Tf ${footerX.toFixed(2)} 30 Td ${pdfString(footer)} Tj ET 0 g`].join("\n"),
+      "latin1",
+    );
+    const contentId = add(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} >>\nstream\n`, "latin1"),
+      stream,
+      Buffer.from("\nendstream", "latin1"),
+    ]));
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`);
+  });
+
+  objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, "latin1");
+  objects[pagesId - 1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    "latin1",
+  );
+  const infoId = add(`<< /Title ${pdfString(title)} /Producer (Scriptwriting AI) >>`);
+
+  // Body, then the cross-reference table of byte offsets
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = parts[0].length;
+  const offsets = objects.map((body, index) => {
+    const object = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    parts.push(object);
+    const start = offset;
+    offset += object.length;
+    return start;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(start => `${String(start).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  parts.push(Buffer.from(xref, "latin1"));
+
+  return Buffer.concat(parts);
+}
+
+export function scriptToPdf(
+  document: ScriptDocument,
+  title: string,
+  settings: ExportSettings,
+  metadata?: Record<string, any>
+): Buffer {
+  const layout: PdfLayout = settings.pdfLayout ?? "av";
+  return writePdf(layoutPages(document, title, settings, layout, metadata), title);
+}
@@ -0,0 +1,39 @@
+// Inline formatting shared by the office document writers
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  cue?: boolean; // a [PAUSE] or [EMPHASIS] marker for the talent
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const TALENT_MARKUP = /\*\*(.+?)\*\*|\*(.+?)\*|\[(pause|emphasis)\]/gi;
+
+// Split a spoken line into runs. With formatForTalent, **bold** and *italic*
+// markup and [pause]/[emphasis] markers become formatting, as in the HTML export.
+export function lineRuns(text: string, formatForTalent: boolean): TextRun[] {
+  if (!formatForTalent) return [{ text }];
+
+  const runs: TextRun[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(TALENT_MARKUP))) {
+    if (match.index! > last) runs.push({ text: text.slice(last, match.index) });
+
+    if (match[1] !== undefined) runs.push({ text: match[1], bold: true });
+    else if (match[2] !== undefined) runs.push({ text: match[2], italic: true });
+    else runs.push({ text: `[${match[3].toUpperCase()}]`, cue: true });
+
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+
+  return runs;
+}
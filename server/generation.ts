@@ -0,0 +1,167 @@
+import type { GenerationTask, Script, ScriptDocument, ScriptIteration, ScriptMetrics } from "@shared/schema";
+import { storage } from "./storage";
+import { getModel, type RegisteredModel } from "./ai/registry";
+import { generationEvents, streamToIteration } from "./streaming";
+import { analyzeRedundancy } from "./analysis/redundancy";
+import { iterationDocument, parseScript, serializeScript, serializeSection } from "@shared/script-document";
+import { iterationConfig, iterationLineage } from "@shared/iteration-tree";
+
+// Resolve the provider serving a model id
+function resolveModel(aiModel: string): RegisteredModel {
+  const model = getModel(aiModel);
+  if (!model) {
+    throw new Error(`Unsupported AI model: ${aiModel}`);
+  }
+  return model;
+}
+
+// Generate the content and metrics for one iteration, refining the completed
+// iterations on its branch. Throws on provider errors so the job queue can retry.
+export async function generateIteration(
+  script: Script,
+  iterationId: number,
+  signal?: AbortSignal,
+  task?: GenerationTask | null,
+): Promise<ScriptIteration> {
+  const iteration = await storage.getScriptIteration(iterationId);
+  if (!iteration) {
+    throw new Error(`Iteration ${iterationId} not found`);
+  }
+
+  const { aiModel, tone, settings } = iterationConfig(script, iteration);
+  const model = resolveModel(aiModel);
+
+  if (task?.type === 'regenerate_section') {
+    return regenerateSection(script, model, tone, iterationId, task, signal);
+  }
+
+  // Get the contents of the completed iterations this one descends from
+  const prevContents = iterationLineage(iteration, await storage.getScriptIterations(script.id))
+    .filter(it => it.status === 'completed')
+    .map(it => it.content);
+
+  const { provider, definition } = model;
+
+  const options = {
+    title: script.title,
+    instructions: script.instructions,
+    structure: script.structure ?? undefined,
+    tone,
+    length: script.length,
+    previousIterations: prevContents,
+    reduceRedundancy: settings.reduceRedundancy,
+    enhanceClarity: settings.enhanceClarity,
+    improveEngagement: settings.improveEngagement,
+    signal,
+  };
+
+  let content: string;
+  let document: ScriptDocument;
+
+  if (settings.structuredOutput && provider.generateStructuredScript && definition.capabilities.structured) {
+    // Structured mode: the model returns a validated document and the text is derived from it
+    document = await provider.generateStructuredScript(definition.id, options);
+    content = serializeScript(document);
+  } else {
+    // Stream when the model supports it so clients can watch the draft being written
+    content = provider.streamScript && definition.capabilities.stream
+      ? await streamToIteration(iterationId, provider.streamScript(definition.id, options))
+      : await provider.generateScript(definition.id, options);
+    document = parseScript(content);
+  }
+
+  return completeIteration(model, iterationId, content, document, prevContents[prevContents.length - 1], signal);
+}
+
+// Build a new iteration from a completed one with a single section rewritten
+async function regenerateSection(
+  script: Script,
+  model: RegisteredModel,
+  tone: string,
+  iterationId: number,
+  task: GenerationTask,
+  signal?: AbortSignal,
+): Promise<ScriptIteration> {
+  const source = await storage.getScriptIteration(task.sourceIterationId);
+  if (!source) {
+    throw new Error(`Iteration ${task.sourceIterationId} not found`);
+  }
+
+  const sourceDocument = iterationDocument(source);
+  const section = sourceDocument.sections[task.sectionIndex];
+  if (!section) {
+    throw new Error(`Iteration ${source.id} has no section ${task.sectionIndex}`);
+  }
+
+  const body = await model.provider.rewriteSection(model.definition.id, {
+    title: script.title,
+    instructions: script.instructions,
+    tone,
+    script: source.content,
+    section: serializeSection(section),
+    extraInstructions: task.instructions,
+    signal,
+  });
+
+  // Keep the section's title and timing; ignore any header the model added anyway
+  const elements = parseScript(body).sections.flatMap(parsed => parsed.elements);
+  if (elements.length === 0) {
+    throw new Error("The model returned an empty section");
+  }
+
+  const document: ScriptDocument = {
+    ...sourceDocument,
+    sections: sourceDocument.sections.map((existing, index) =>
+      index === task.sectionIndex ? { ...existing, elements } : existing),
+  };
+
+  return completeIteration(model, iterationId, serializeScript(document), document, source.content, signal);
+}
+
+// Analyse finished content, save it on the iteration and notify stream listeners
+async function completeIteration(
+  { provider, definition }: RegisteredModel,
+  iterationId: number,
+  content: string,
+  document: ScriptDocument,
+  previousContent: string | undefined,
+  signal?: AbortSignal,
+): Promise<ScriptIteration> {
+  // Calculate metrics
+  const metrics: ScriptMetrics = await provider.analyzeScript(definition.id, document);
+  metrics.redundancy = analyzeRedundancy(document);
+
+  // If this is not the first iteration, calculate redundancy reduction
+  if (previousContent !== undefined) {
+    const comparison = await provider.compareScripts(definition.id, previousContent, content);
+
+    metrics.redundancyReduction = comparison.redundancyReduction;
+    metrics.improvementAreas = comparison.improvementAreas;
+  }
+
+  // A cancellation that lands after the provider finished must still win
+  signal?.throwIfAborted();
+
+  // Update the iteration with the generated content and metrics
+  const completed = await storage.updateScriptIteration(iterationId, {
+    content,
+    document,
+    status: 'completed',
+    metrics,
+  });
+  if (!completed) {
+    throw new Error(`Iteration ${iterationId} disappeared during generation`);
+  }
+
+  // Keep the AI draft in the iteration's history before anyone edits it
+  await storage.createIterationRevision({
+    scriptId: completed.scriptId,
+    iterationId,
+    content,
+    document,
+    source: 'ai',
+  });
+
+  generationEvents.done(iterationId, completed);
+  return completed;
+}
@@ -0,0 +1,85 @@
+import type { ImportedScript } from "./formats";
+import { readZip, ZIP_TOO_LARGE_MESSAGE } from "./unzip";
+
+// Word (.docx) import: one script line per paragraph. Heading styles become
+// sections, the Title style the script title, and bold or italic runs keep
+// their emphasis as markdown, as written by the Word export.
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// A run property such as <w:b/> is on unless its value turns it off
+function hasProperty(runProps: string, name: string): boolean {
+  const match = runProps.match(new RegExp(`<w:${name}(?:\\s+w:val="([^"]*)")?\\s*/>`));
+  return !!match && !["0", "false", "none"].includes(match[1] ?? "");
+}
+
+function runText(run: string): string {
+  const text = Array.from(run.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>/g))
+    .map(token => token[1] !== undefined ? decodeXml(token[1]) : token[0].startsWith("<w:tab") ? "\t" : " ")
+    .join("");
+  if (!text.trim()) return text;
+
+  const runProps = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? "";
+  if (hasProperty(runProps, "b")) return `**${text}**`;
+  if (hasProperty(runProps, "i")) return `*${text}*`;
+  return text;
+}
+
+function paragraphText(paragraph: string): string {
+  return Array.from(paragraph.matchAll(/<w:r[\s>][\s\S]*?<\/w:r>/g))
+    .map(run => runText(run[0]))
+    .join("")
+    .replace(/\*\*\*\*/g, "") // adjoining bold runs
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function docxToScript(base64: string): ImportedScript {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readZip(Buffer.from(base64, "base64"));
+  } catch (error) {
+    const tooLarge = error instanceof Error && error.message === ZIP_TOO_LARGE_MESSAGE;
+    throw new Error(tooLarge ? ZIP_TOO_LARGE_MESSAGE : "The file is not a valid .docx document");
+  }
+
+  const documentXml = entries.get("word/document.xml")?.toString("utf8");
+  if (!documentXml) {
+    throw new Error("The file is not a valid .docx document");
+  }
+
+  let title: string | undefined;
+  const lines: string[] = [];
+
+  for (const match of Array.from(documentXml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g))) {
+    const paragraph = match[0];
+    const text = paragraphText(paragraph);
+    if (!text) continue;
+
+    const style = paragraph.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1] ?? "";
+    const plain = text.replace(/\*/g, "");
+    if (/^title$/i.test(style) && title === undefined) {
+      title = plain;
+    } else if (/^heading\s?\d$/i.test(style)) {
+      lines.push("", `## ${plain}`);
+    } else if (style !== "Metadata") { // the Word export's title page details
+      lines.push(text);
+    }
+  }
+
+  // Fall back to the title in the document properties
+  const core = entries.get("docProps/core.xml")?.toString("utf8");
+  const coreTitle = core?.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1];
+  title = title ?? (coreTitle ? decodeXml(coreTitle).trim() || undefined : undefined);
+
+  return { title, content: lines.join("\n").trim() };
+}
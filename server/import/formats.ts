@@ -0,0 +1,30 @@
+import { ImportScriptInput } from "@shared/schema";
+import { docxToScript } from "./docx";
+import { fountainToScript } from "./fountain";
+import { srtToScript } from "./srt";
+import { markdownToScript, textToScript } from "./text";
+
+// An imported draft as plain script text, with the title the file carried if any
+export interface ImportedScript {
+  title?: string;
+  content: string;
+}
+
+// Main import function to turn an uploaded document into script content.
+// Binary formats (docx) arrive base64-encoded.
+export function importScript(format: ImportScriptInput["format"], source: string): ImportedScript {
+  switch (format) {
+    case 'text':
+      return textToScript(source);
+    case 'markdown':
+      return markdownToScript(source);
+    case 'docx':
+      return docxToScript(source);
+    case 'srt':
+      return srtToScript(source);
+    case 'fountain':
+      return fountainToScript(source);
+    default:
+      throw new Error(`Unsupported import format: ${format}`);
+  }
+}
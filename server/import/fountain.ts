@@ -0,0 +1,116 @@
+import { HOST_CHARACTER } from "../export/fountain";
+import type { ImportedScript } from "./formats";
+import { normalizeText } from "./text";
+
+// Fountain screenplay import. Scene headings become sections, dialogue
+// becomes spoken lines under the character's name (unlabelled for the host),
+// parentheticals become speaker notes and action becomes directions. The
+// result is plain script text in the same shape the models write.
+
+const SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const SPEAKER_LABEL = /^[A-Z][A-Z0-9 .'-]{0,30}$/;
+const WHOLE_LINE_NOTE = /^\s*\[\[(.*)\]\]\s*$/;
+
+function stripUnderline(text: string): string {
+  return text.replace(/_(.+?)_/g, "$1");
+}
+
+// Title page key: value pairs, ending at the first blank line
+function parseTitlePage(lines: string[]): { title?: string; bodyStart: number } {
+  if (!/^[A-Za-z][A-Za-z ]*:/.test(lines[0] ?? "")) return { bodyStart: 0 };
+
+  const values: Record<string, string[]> = {};
+  let key = "";
+  let index = 0;
+  for (; index < lines.length && lines[index].trim(); index++) {
+    const line = lines[index];
+    const pair = line.match(/^([A-Za-z][A-Za-z ]*):\s*(.*)$/);
+    if (pair && !/^\s/.test(line)) {
+      key = pair[1].trim().toLowerCase();
+      values[key] = pair[2] ? [pair[2].trim()] : [];
+    } else if (key) {
+      values[key].push(line.trim()); // indented continuation of a multi-line value
+    }
+  }
+
+  const title = values["title"]?.join(" ").replace(/[*_]/g, "").trim();
+  return { title: title || undefined, bodyStart: index };
+}
+
+function dialogueLine(name: string, text: string): string {
+  // A host line in capitals would read as a section header without its label
+  if (name === HOST_CHARACTER && /[a-z]/.test(text)) return text;
+  return SPEAKER_LABEL.test(name) ? `${name}: ${text}` : `**${name}:** ${text}`;
+}
+
+function blockToLines(block: string[]): string[] {
+  const first = block[0].trim();
+
+  // Page breaks, outline sections and synopses are not part of the script
+  if (/^={3,}$/.test(first) || first.startsWith("#") || /^=(?!=)/.test(first)) return [];
+
+  if ((first.startsWith(".") && !first.startsWith("..")) || SCENE_HEADING.test(first)) {
+    const heading = first.replace(/^\./, "").replace(/\s*#[^#]+#$/, "").trim();
+    return [`## ${heading}`, ...block.slice(1).flatMap(line => blockToLines([line]))];
+  }
+
+  const centered = first.match(/^>\s*(.*?)\s*<$/);
+  if (centered) return [`[On-screen text: ${centered[1]}]`];
+
+  // Transitions: forced with ">" or an all-caps line ending in "TO:"
+  if (first.startsWith(">") || (/TO:$/.test(first) && !/[a-z]/.test(first) && block.length === 1)) {
+    return [`[${first.replace(/^>\s*/, "")}]`];
+  }
+
+  const isCharacter = block.length > 1 && !first.startsWith("!") &&
+    (first.startsWith("@") || (/[A-Z]/.test(first) && !/[a-z]/.test(first.replace(/\(.*\)/, ""))));
+  if (isCharacter) {
+    // Drop the "@" that forces a character, extensions like (V.O.) and the dual dialogue caret
+    const name = first.replace(/^@/, "").replace(/\s*\^$/, "").replace(/\s*\(.*\)$/, "").trim();
+    return block.slice(1).flatMap(line => {
+      const text = stripUnderline(line.trim().replace(/^~\s*/, ""));
+      if (!text) return [];
+      const note = text.match(/^\((.*)\)$/) ?? text.match(WHOLE_LINE_NOTE);
+      return note ? [`[Speaker note: ${note[1]}]`] : [dialogueLine(name, text)];
+    });
+  }
+
+  // Action, one direction per line
+  return block.flatMap(line => {
+    const note = line.match(WHOLE_LINE_NOTE);
+    if (note) return [`[Speaker note: ${note[1].trim()}]`];
+    const text = stripUnderline(line.trim().replace(/^!/, ""));
+    return text ? [`[${text}]`] : [];
+  });
+}
+
+export function fountainToScript(source: string): ImportedScript {
+  const text = normalizeText(source)
+    .replace(/\/\*[\s\S]*?\*\//g, "") // boneyard
+    .replace(/\[\[[^\]]*\n[\s\S]*?\]\]/g, ""); // notes spanning several lines
+
+  // Notes on a line of their own become speaker notes; inline ones are dropped
+  const lines = text.split("\n").map(line => WHOLE_LINE_NOTE.test(line) ? line : line.replace(/\[\[.*?\]\]/g, ""));
+  const { title, bodyStart } = parseTitlePage(lines);
+
+  // Elements are separated by blank lines
+  const blocks: string[][] = [];
+  let block: string[] = [];
+  for (const line of lines.slice(bodyStart)) {
+    if (line.trim()) {
+      block.push(line);
+    } else if (block.length > 0) {
+      blocks.push(block);
+      block = [];
+    }
+  }
+  if (block.length > 0) blocks.push(block);
+
+  const content = blocks
+    .map(blockToLines)
+    .filter(blockLines => blockLines.length > 0)
+    .map(blockLines => blockLines.join("\n"))
+    .join("\n\n");
+
+  return { title, content };
+}
@@ -0,0 +1,98 @@
+import { formatTimestamp } from "@shared/script-document";
+import type { ImportedScript } from "./formats";
+import { normalizeText, RUN_ON_WORDS, splitIntoSentences } from "./text";
+
+// SRT subtitle import, e.g. the auto-generated transcript of a past video.
+// Cue text is joined back into sentences, one spoken line each, and grouped
+// into timed sections of about a minute that start on a sentence boundary.
+
+const SECTION_SECONDS = 60;
+const SENTENCE_END = /[.!?]["')\]]*$/;
+
+const CUE_TIMING = /(\d{1,2}):(\d{2}):(\d{2})[,.](\d{3})\s*-->\s*(\d{1,2}):(\d{2}):(\d{2})[,.](\d{3})/;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface TimedSection {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function seconds(hours: string, minutes: string, secs: string, millis: string): number {
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(secs, 10) + parseInt(millis, 10) / 1000;
+}
+
+function parseCues(source: string): Cue[] {
+  const cues: Cue[] = [];
+  for (const block of normalizeText(source).split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) continue;
+
+    const timing = lines[timingIndex].match(CUE_TIMING)!;
+    const text = lines.slice(timingIndex + 1).join(" ")
+      .replace(/<[^>]+>/g, "") // <i>, <font> and similar tags
+      .replace(/\{\\[^}]*\}/g, "") // {\an8} positioning
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!text) continue;
+
+    cues.push({
+      start: seconds(timing[1], timing[2], timing[3], timing[4]),
+      end: seconds(timing[5], timing[6], timing[7], timing[8]),
+      text,
+    });
+  }
+  return cues;
+}
+
+export function srtToScript(source: string): ImportedScript {
+  const cues = parseCues(source);
+  const sections: TimedSection[] = [];
+  let current: TimedSection | undefined;
+  let pending = ""; // text of the sentence still being assembled
+  let pendingStart = 0;
+
+  for (const cue of cues) {
+    if (!pending) pendingStart = cue.start;
+    pending = pending ? `${pending} ${cue.text}` : cue.text;
+
+    // Everything up to the last complete sentence in the cue is finished.
+    // Unpunctuated transcripts are broken at a cue boundary once a line gets long.
+    const sentences = splitIntoSentences(pending);
+    const finished = SENTENCE_END.test(pending) ||
+      (sentences.length === 1 && pending.split(" ").length >= RUN_ON_WORDS);
+    const complete = finished ? sentences : sentences.slice(0, -1);
+    if (complete.length === 0) continue;
+    pending = finished ? "" : sentences[sentences.length - 1];
+
+    if (!current || pendingStart - current.start >= SECTION_SECONDS) {
+      current = { start: pendingStart, end: cue.end, lines: [] };
+      sections.push(current);
+    }
+    current.lines.push(...complete);
+    current.end = cue.end;
+    pendingStart = cue.start;
+  }
+
+  // Transcripts without punctuation end with one unfinished "sentence"
+  if (pending) {
+    if (!current) {
+      current = { start: pendingStart, end: cues[cues.length - 1].end, lines: [] };
+      sections.push(current);
+    }
+    current.lines.push(pending);
+    current.end = cues[cues.length - 1].end;
+  }
+
+  const content = sections.map((section, index) =>
+    [`## Part ${index + 1} (${formatTimestamp(section.start)}-${formatTimestamp(section.end)})`, ...section.lines].join("\n"))
+    .join("\n\n");
+
+  return { content };
+}
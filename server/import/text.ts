@@ -0,0 +1,72 @@
+import type { ImportedScript } from "./formats";
+
+// Plain text and markdown import. Drafts written by hand usually already use
+// the headings, speaker labels and [bracketed] directions the script parser
+// understands; transcripts are one long run of speech, split into sentences.
+
+// Longer unlabelled lines are split so each sentence can be edited on its own
+const LONG_LINE = 300;
+// Unpunctuated transcripts are broken into lines of about this many words
+export const RUN_ON_WORDS = 30;
+
+export function normalizeText(source: string): string {
+  return source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+export function splitIntoSentences(text: string): string[] {
+  return (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [text])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function chunkWords(text: string): string[] {
+  const words = text.split(/\s+/);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += RUN_ON_WORDS) {
+    chunks.push(words.slice(i, i + RUN_ON_WORDS).join(" "));
+  }
+  return chunks;
+}
+
+function splitLongLines(content: string): string {
+  return content
+    .split("\n")
+    .flatMap(line => line.length > LONG_LINE && !/^\s*[#[(*]/.test(line)
+      ? splitIntoSentences(line).flatMap(sentence => sentence.length > LONG_LINE ? chunkWords(sentence) : [sentence])
+      : [line])
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function textToScript(source: string): ImportedScript {
+  return { content: splitLongLines(normalizeText(source)) };
+}
+
+export function markdownToScript(source: string): ImportedScript {
+  let text = normalizeText(source);
+  let title: string | undefined;
+
+  // YAML front matter, keeping its title
+  const frontMatter = text.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    title = frontMatter[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+    text = text.slice(frontMatter[0].length);
+  }
+
+  // A leading top-level heading is the document title rather than a section
+  const heading = text.match(/^\s*#\s+(.+)\n/);
+  if (heading) {
+    title = title ?? heading[1].replace(/[*_]/g, "").trim();
+    text = text.slice(heading[0].length);
+  }
+
+  const content = text
+    .replace(/^```[\s\S]*?^```\s*$/gm, "") // code blocks
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "") // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // links keep their text
+    .replace(/^[ \t]*(?:[-*+]|\d+\.)[ \t]+/gm, "") // list markers
+    .replace(/^[ \t]*>[ \t]?/gm, ""); // blockquotes
+
+  return { title, content: splitLongLines(content) };
+}
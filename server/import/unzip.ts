@@ -0,0 +1,75 @@
+import { inflateRawSync } from "zlib";
+
+// Minimal ZIP reader for imported office documents: stored and deflated
+// entries located through the central directory, no encryption or ZIP64.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Caps on inflated sizes so a small upload cannot expand to fill memory
+const MAX_ENTRY_SIZE = 8 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 32 * 1024 * 1024;
+
+// Thrown when the archive would inflate past the caps; safe to show to the user
+export const ZIP_TOO_LARGE_MESSAGE = "The file is too large to import once uncompressed";
+
+export function readZip(data: Buffer): Map<string, Buffer> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const declaredSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    // The local header's own name and extra field lengths can differ from the central ones
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(start, start + compressedSize);
+
+    // Other compression methods are skipped; office documents only use these two
+    if (method !== 0 && method !== 8) continue;
+
+    // The declared size can lie, so inflating is capped as well
+    const limit = Math.min(MAX_ENTRY_SIZE, MAX_TOTAL_SIZE - totalSize);
+    if (declaredSize > limit || compressed.length > limit) {
+      throw new Error(ZIP_TOO_LARGE_MESSAGE);
+    }
+    let content: Buffer;
+    try {
+      content = method === 0 ? compressed : inflateRawSync(compressed, { maxOutputLength: Math.max(limit, 1) });
+    } catch (error) {
+      throw (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE" ? new Error(ZIP_TOO_LARGE_MESSAGE) : error;
+    }
+    totalSize += content.length;
+    entries.set(name, content);
+  }
+
+  return entries;
+}
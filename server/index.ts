@@ -3,7 +3,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Large enough for documents uploaded to the import endpoint
+app.use(express.json({ limit: "8mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
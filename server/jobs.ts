@@ -0,0 +1,233 @@
+import type { GenerationJob, GenerationTask, IterationOverrides, Script, ScriptIteration, ScriptSettings } from "@shared/schema";
+import { storage } from "./storage";
+import { generateIteration } from "./generation";
+import { generationEvents } from "./streaming";
+import { childIterationNumber, hasRefinementPassesLeft, latestCompletedIteration } from "@shared/iteration-tree";
+import { log } from "./vite";
+
+const ACTIVE_STATUSES = ['queued', 'running'];
+
+export interface GenerationQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  retryDelayMs: number; // delay before the first retry, doubled on each later one
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Runs script generation as persisted jobs. Job records live in storage so
+// queued and interrupted work survives a restart; retries back off exponentially.
+export class GenerationQueue {
+  private running = new Map<number, AbortController>();
+  private timer?: NodeJS.Timeout;
+  private pumping = false;
+  private pumpRequested = false;
+
+  constructor(private options: GenerationQueueOptions) {}
+
+  // Queue generation for an iteration that is already marked in_progress
+  async enqueue(iteration: ScriptIteration, task?: GenerationTask): Promise<GenerationJob> {
+    const job = await storage.createGenerationJob({
+      scriptId: iteration.scriptId,
+      iterationId: iteration.id,
+      task: task ?? null,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: this.options.maxAttempts,
+      runAfter: new Date(),
+    });
+    this.pump();
+    return job;
+  }
+
+  // The newest queued or running job for an iteration, if any
+  async getActiveJob(iterationId: number): Promise<GenerationJob | undefined> {
+    const jobs = await storage.getIterationGenerationJobs(iterationId);
+    return jobs.reverse().find(job => ACTIVE_STATUSES.includes(job.status));
+  }
+
+  // Cancel the active job for an iteration. Returns undefined when nothing was running.
+  async cancel(iterationId: number): Promise<ScriptIteration | undefined> {
+    const job = await this.getActiveJob(iterationId);
+    if (!job) return undefined;
+
+    await storage.updateGenerationJob(job.id, { status: 'cancelled' });
+    this.running.get(job.id)?.abort();
+
+    const iteration = await storage.updateScriptIteration(iterationId, { status: 'cancelled' });
+    if (iteration) generationEvents.done(iterationId, iteration);
+    return iteration;
+  }
+
+  // Requeue a failed or cancelled iteration from scratch, repeating the task its last job had
+  async retry(iteration: ScriptIteration): Promise<{ iteration: ScriptIteration; job: GenerationJob }> {
+    const [lastJob] = (await storage.getIterationGenerationJobs(iteration.id)).reverse();
+    const reset = await storage.updateScriptIteration(iteration.id, {
+      content: "Generating script...",
+      status: 'in_progress',
+      metrics: null,
+      document: null,
+    });
+    const job = await this.enqueue(reset!, (lastJob?.task as GenerationTask | null) ?? undefined);
+    return { iteration: reset!, job };
+  }
+
+  // Resume work left behind by a previous process: jobs that were running are
+  // queued again and in-progress iterations without any job get a fresh one.
+  async recover() {
+    const interrupted = await storage.getGenerationJobsByStatus(['running']);
+    for (const job of interrupted) {
+      await storage.updateGenerationJob(job.id, { status: 'queued', runAfter: new Date() });
+    }
+
+    const orphaned = await storage.getIterationsByStatus('in_progress');
+    for (const iteration of orphaned) {
+      if (!(await this.getActiveJob(iteration.id))) {
+        await this.enqueue(iteration);
+      }
+    }
+
+    const pending = await storage.getGenerationJobsByStatus(['queued']);
+    if (pending.length > 0) {
+      log(`recovered ${pending.length} generation job(s)`, "jobs");
+    }
+    this.pump();
+  }
+
+  // Start due jobs up to the concurrency limit; serialised so a job is never started twice
+  private async pump() {
+    if (this.pumping) {
+      this.pumpRequested = true;
+      return;
+    }
+
+    this.pumping = true;
+    try {
+      do {
+        this.pumpRequested = false;
+        await this.startDueJobs();
+      } while (this.pumpRequested);
+    } catch (error) {
+      console.error("Error scheduling generation jobs:", error);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async startDueJobs() {
+    const queued = await storage.getGenerationJobsByStatus(['queued']);
+    const now = Date.now();
+
+    for (const job of queued) {
+      if (this.running.size >= this.options.concurrency) return;
+      if (job.runAfter.getTime() > now) continue;
+
+      // A job cancelled since it was read stays cancelled
+      const started = await storage.transitionGenerationJob(job.id, 'queued', {
+        status: 'running',
+        attempts: job.attempts + 1,
+      });
+      if (started) this.run(started);
+    }
+
+    // Wake up again when the earliest backed-off job becomes due
+    const nextRun = queued
+      .filter(job => job.runAfter.getTime() > now)
+      .reduce((min, job) => Math.min(min, job.runAfter.getTime()), Infinity);
+    if (nextRun !== Infinity) {
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => this.pump(), nextRun - now);
+    }
+  }
+
+  private async run(job: GenerationJob) {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    try {
+      const script = await storage.getScript(job.scriptId);
+      if (!script) {
+        throw new Error(`Script ${job.scriptId} not found`);
+      }
+
+      await generateIteration(script, job.iterationId, controller.signal, job.task as GenerationTask | null);
+      await storage.updateGenerationJob(job.id, { status: 'succeeded', error: null });
+      // Tasks like section rewrites are one-offs outside the auto-refine chain
+      if (!job.task) await this.continuePipeline(script);
+    } catch (error) {
+      // cancel() has already recorded the outcome
+      if (!controller.signal.aborted) {
+        // run() is not awaited, so a storage error here must not escape
+        await this.handleFailure(job, error).catch(failure => {
+          console.error(`Error recording the failure of generation job ${job.id}:`, failure);
+        });
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.pump();
+    }
+  }
+
+  // In auto-refine mode, queue the next refinement pass once the previous one completes.
+  // Failed or cancelled iterations stop the chain until they are retried. Errors are
+  // only logged: the job that just finished must not be retried or marked failed.
+  private async continuePipeline(script: Script) {
+    try {
+      const settings = script.settings as ScriptSettings | null;
+      if (!settings?.autoRefine) return;
+
+      const iterations = await storage.getScriptIterations(script.id);
+      if (iterations.some(it => it.status !== 'completed')) return;
+      if (!hasRefinementPassesLeft(script, iterations)) return;
+
+      // Refine the newest iteration, keeping any settings its branch changed
+      const parent = latestCompletedIteration(iterations)!;
+      const next = await storage.createScriptIteration({
+        scriptId: script.id,
+        iterationNumber: childIterationNumber(parent),
+        content: "Generating next iteration...",
+        status: 'in_progress',
+        metrics: null,
+        parentId: parent.id,
+        overrides: parent.overrides as IterationOverrides | null,
+      });
+      await this.enqueue(next);
+    } catch (error) {
+      console.error(`Error queueing the next iteration of script ${script.id}:`, error);
+    }
+  }
+
+  private async handleFailure(job: GenerationJob, error: unknown) {
+    const message = errorMessage(error);
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = this.options.retryDelayMs * 2 ** (job.attempts - 1);
+      console.warn(`Generation job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms:`, message);
+
+      await storage.updateGenerationJob(job.id, {
+        status: 'queued',
+        error: message,
+        runAfter: new Date(Date.now() + delay),
+      });
+      return;
+    }
+
+    console.error(`Generation job ${job.id} failed after ${job.attempts} attempts:`, message);
+    await storage.updateGenerationJob(job.id, { status: 'failed', error: message });
+
+    // Update the iteration with the error status
+    await storage.updateScriptIteration(job.iterationId, {
+      content: "Error generating script content.",
+      status: 'failed',
+    });
+    generationEvents.error(job.iterationId, message);
+  }
+}
+
+export const generationQueue = new GenerationQueue({
+  concurrency: parseInt(process.env.GENERATION_CONCURRENCY || "2"),
+  maxAttempts: parseInt(process.env.GENERATION_MAX_ATTEMPTS || "3"),
+  retryDelayMs: parseInt(process.env.GENERATION_RETRY_DELAY_MS || "2000"),
+});
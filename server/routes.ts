@@ -7,12 +7,35 @@ import { fromZodError } from "zod-validation-error";
 import { 
   createScriptSchema, 
   exportSettingsSchema, 
+  importScriptSchema, 
   insertScriptSchema, 
-  insertScriptIterationSchema
+  insertScriptIterationSchema,
+  iterationOverridesSchema,
+  scriptLibraryQuerySchema,
+  selectionRewriteSchema,
+  type IterationOverrides,
+  type IterationRevisionEntry,
+  type Script,
+  type ScriptIteration
 } from "@shared/schema";
-import * as openai from "./ai/openai";
-import * as anthropic from "./ai/anthropic";
-import { exportScript } from "./export/docx";
+import { getModel, listModels } from "./ai/registry";
+import { generationQueue } from "./jobs";
+import { EXPORT_FILE_TYPES, exportScript } from "./export/formats";
+import { createZip } from "./export/zip";
+import { setupAuth, requireAuth } from "./auth";
+import { generationEvents, openEventStream, type GenerationEvent } from "./streaming";
+import { diffIterations } from "./analysis/diff";
+import { computeScriptMetrics } from "./analysis/metrics";
+import { analyzeRedundancy } from "./analysis/redundancy";
+import { importScript, type ImportedScript } from "./import/formats";
+import { iterationDocument, parseScript } from "@shared/script-document";
+import {
+  childIterationNumber,
+  hasRefinementPassesLeft,
+  iterationConfig,
+  latestCompletedIteration,
+  parentIterationId,
+} from "@shared/iteration-tree";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Add error handling middleware to format validation errors
@@ -25,14 +48,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next(err);
   });
 
+  // Sessions, passport and the /api/auth endpoints
+  setupAuth(app);
+
+  // Every script route requires a logged-in user
+  app.use('/api/scripts', requireAuth);
+
+  // Look up a script only if it belongs to the authenticated user
+  async function getOwnedScript(req: Request) {
+    const scriptId = parseInt(req.params.id);
+    if (isNaN(scriptId)) return undefined;
+
+    const script = await storage.getScript(scriptId);
+    if (!script || script.userId !== req.user!.id) return undefined;
+
+    return script;
+  }
+
+  // Iterations completed before revisions were recorded have no history yet;
+  // save their current content as the AI draft before it is replaced
+  async function ensureBaselineRevision(iteration: ScriptIteration) {
+    const revisions = await storage.getIterationRevisions(iteration.id);
+    if (revisions.length > 0) return;
+
+    await storage.createIterationRevision({
+      scriptId: iteration.scriptId,
+      iterationId: iteration.id,
+      content: iteration.content,
+      document: iterationDocument(iteration),
+      source: 'ai',
+    });
+  }
+
+  // List the AI models available for generation
+  app.get('/api/models', (req: Request, res: Response) => {
+    res.json(listModels());
+  });
+
   // Script creation endpoint
   app.post('/api/scripts', async (req: Request, res: Response) => {
     try {
       const validatedData = createScriptSchema.parse(req.body);
       
+      const model = getModel(validatedData.aiModel);
+      if (!model) {
+        return res.status(400).json({ message: `Unsupported AI model: ${validatedData.aiModel}` });
+      }
+      if (!model.provider.isConfigured()) {
+        return res.status(400).json({ message: `AI model ${validatedData.aiModel} is not configured on this server` });
+      }
+      
       // Map the validated data to the script schema
       const scriptData = {
-        userId: 1, // Default user ID for now, would be from auth in production
+        userId: req.user!.id,
         title: validatedData.title,
         instructions: validatedData.instructions,
         structure: validatedData.structure || "",
@@ -59,13 +127,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get scripts endpoint
+  // Import an existing draft, transcript or screenplay as a completed first iteration
+  app.post('/api/scripts/import', async (req: Request, res: Response) => {
+    try {
+      const validatedData = importScriptSchema.parse(req.body);
+      
+      const model = getModel(validatedData.aiModel);
+      if (!model) {
+        return res.status(400).json({ message: `Unsupported AI model: ${validatedData.aiModel}` });
+      }
+      if (!model.provider.isConfigured()) {
+        return res.status(400).json({ message: `AI model ${validatedData.aiModel} is not configured on this server` });
+      }
+      
+      let imported: ImportedScript;
+      try {
+        imported = importScript(validatedData.format, validatedData.source);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Could not read the imported file" });
+      }
+      const document = parseScript(imported.content);
+      if (document.sections.every(section => section.elements.length === 0)) {
+        return res.status(400).json({ message: "No script content found in the imported file" });
+      }
+      
+      const script = await storage.createScript({
+        userId: req.user!.id,
+        title: validatedData.title?.trim() || imported.title || "Imported script",
+        instructions: validatedData.instructions?.trim() || "Refine this imported script.",
+        structure: validatedData.structure || "",
+        aiModel: validatedData.aiModel,
+        tone: validatedData.tone,
+        length: validatedData.length,
+        iterations: validatedData.iterations,
+        settings: validatedData.settings,
+      });
+      
+      // Imported text is analysed locally, the same way providers score their drafts
+      const metrics = computeScriptMetrics(document);
+      metrics.redundancy = analyzeRedundancy(document);
+      
+      const iteration = await storage.createScriptIteration({
+        scriptId: script.id,
+        iterationNumber: 1,
+        content: imported.content,
+        document,
+        status: 'completed',
+        metrics,
+      });
+      await storage.createIterationRevision({
+        scriptId: script.id,
+        iterationId: iteration.id,
+        content: iteration.content,
+        document,
+        source: 'import',
+        authorId: req.user!.id,
+      });
+      
+      res.status(201).json({ script, iteration });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else {
+        console.error("Error importing script:", error);
+        res.status(500).json({ message: "Failed to import script" });
+      }
+    }
+  });
+
+  // Script library: the user's scripts, searched, filtered, sorted and paginated
   app.get('/api/scripts', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Default user ID for now
-      const scripts = await storage.getUserScripts(userId);
-      res.json(scripts);
+      const query = scriptLibraryQuerySchema.parse(req.query);
+      const page = await storage.searchUserScripts(req.user!.id, query);
+      res.json(page);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error fetching scripts:", error);
       res.status(500).json({ message: "Failed to fetch scripts" });
     }
@@ -74,14 +213,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get specific script with all iterations
   app.get('/api/scripts/:id', async (req: Request, res: Response) => {
     try {
-      const scriptId = parseInt(req.params.id);
-      const script = await storage.getScript(scriptId);
+      const script = await getOwnedScript(req);
       
       if (!script) {
         return res.status(404).json({ message: "Script not found" });
       }
       
-      const iterations = await storage.getScriptIterations(scriptId);
+      const iterations = await storage.getScriptIterations(script.id);
       
       res.json({ script, iterations });
     } catch (error) {
@@ -93,21 +231,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Generate next iteration
   app.post('/api/scripts/:id/iterations', async (req: Request, res: Response) => {
     try {
-      const scriptId = parseInt(req.params.id);
-      const script = await storage.getScript(scriptId);
+      const script = await getOwnedScript(req);
       
       if (!script) {
         return res.status(404).json({ message: "Script not found" });
       }
       
-      const existingIterations = await storage.getScriptIterations(scriptId);
-      const nextIterationNumber = existingIterations.length + 1;
+      // A pass refines a finished draft, so wait for the one being written
+      const existingIterations = await storage.getScriptIterations(script.id);
+      if (existingIterations.some(it => it.status === 'in_progress')) {
+        return res.status(409).json({ message: "An iteration is still being generated" });
+      }
       
-      if (nextIterationNumber > script.iterations) {
+      const parent = latestCompletedIteration(existingIterations);
+      if (!parent) {
+        return res.status(409).json({ message: "No completed iteration to refine" });
+      }
+      
+      // Only the refinement chain counts toward the pass budget, not forks or section rewrites
+      if (!hasRefinementPassesLeft(script, existingIterations)) {
         return res.status(400).json({ message: "Maximum iterations reached" });
       }
       
-      const iteration = await generateNextIteration(script, existingIterations);
+      const iteration = await generateNextIteration(script, parent);
       
       res.status(201).json(iteration);
     } catch (error) {
@@ -116,70 +262,372 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancel an in-progress iteration
+  app.post('/api/scripts/:id/iterations/:iterationId/cancel', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      const cancelled = await generationQueue.cancel(iterationId);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Iteration is not being generated" });
+      }
+      
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling iteration:", error);
+      res.status(500).json({ message: "Failed to cancel iteration" });
+    }
+  });
+
+  // Retry a failed or cancelled iteration
+  app.post('/api/scripts/:id/iterations/:iterationId/retry', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      if (iteration.status !== 'failed' && iteration.status !== 'cancelled') {
+        return res.status(409).json({ message: "Only failed or cancelled iterations can be retried" });
+      }
+      
+      const { iteration: retried } = await generationQueue.retry(iteration);
+      
+      res.status(202).json(retried);
+    } catch (error) {
+      console.error("Error retrying iteration:", error);
+      res.status(500).json({ message: "Failed to retry iteration" });
+    }
+  });
+
+  // Rewrite one section of a completed iteration into a new iteration
+  app.post('/api/scripts/:id/iterations/:iterationId/sections/:index/regenerate', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      const sectionIndex = parseInt(req.params.index);
+      
+      const bodySchema = z.object({
+        instructions: z.string().max(1000).optional(),
+      });
+      
+      const { instructions } = bodySchema.parse(req.body ?? {});
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      if (iteration.status !== 'completed') {
+        return res.status(409).json({ message: "Only completed iterations can be edited by section" });
+      }
+      
+      if (isNaN(sectionIndex) || !iterationDocument(iteration).sections[sectionIndex]) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+      
+      // A section rewrite edits its source rather than refining it, so it keeps its number
+      const newIteration = await storage.createScriptIteration({
+        scriptId: script.id,
+        iterationNumber: iteration.iterationNumber,
+        content: "Regenerating section...",
+        status: 'in_progress',
+        metrics: null,
+        parentId: iteration.id,
+        overrides: iteration.overrides as IterationOverrides | null,
+      });
+      
+      await generationQueue.enqueue(newIteration, {
+        type: 'regenerate_section',
+        sourceIterationId: iteration.id,
+        sectionIndex,
+        instructions: instructions?.trim() || undefined,
+      });
+      
+      res.status(202).json(newIteration);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else {
+        console.error("Error regenerating section:", error);
+        res.status(500).json({ message: "Failed to regenerate section" });
+      }
+    }
+  });
+
+  // Start a new branch from any completed iteration, optionally with a
+  // different model, tone or refinement settings
+  app.post('/api/scripts/:id/iterations/:iterationId/fork', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      const overrides = iterationOverridesSchema.parse(req.body ?? {});
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      // The foreign key only proves the parent exists; it must also be one of
+      // this script's iterations or the branch would join another tree
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      if (iteration.status !== 'completed') {
+        return res.status(409).json({ message: "Only completed iterations can be forked" });
+      }
+      
+      if (overrides.aiModel) {
+        const model = getModel(overrides.aiModel);
+        if (!model) {
+          return res.status(400).json({ message: `Unsupported AI model: ${overrides.aiModel}` });
+        }
+        if (!model.provider.isConfigured()) {
+          return res.status(400).json({ message: `AI model ${overrides.aiModel} is not configured on this server` });
+        }
+      }
+      
+      // A branch keeps what its parent changed unless it changes it again
+      const newIteration = await storage.createScriptIteration({
+        scriptId: script.id,
+        iterationNumber: childIterationNumber(iteration),
+        content: "Generating branch...",
+        status: 'in_progress',
+        metrics: null,
+        parentId: iteration.id,
+        overrides: { ...(iteration.overrides as IterationOverrides | null), ...overrides },
+      });
+      
+      await generationQueue.enqueue(newIteration);
+      
+      res.status(202).json(newIteration);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else {
+        console.error("Error forking iteration:", error);
+        res.status(500).json({ message: "Failed to fork iteration" });
+      }
+    }
+  });
+
+  // Suggest a rewrite of a passage selected in the editor; nothing is saved
+  app.post('/api/scripts/:id/rewrite', async (req: Request, res: Response) => {
+    try {
+      const request = selectionRewriteSchema.parse(req.body);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const model = getModel(script.aiModel);
+      if (!model) {
+        return res.status(400).json({ message: `Unsupported AI model: ${script.aiModel}` });
+      }
+      if (!model.provider.isConfigured()) {
+        return res.status(400).json({ message: `AI model ${script.aiModel} is not configured on this server` });
+      }
+      
+      const suggestion = await model.provider.rewriteSelection(model.definition.id, {
+        ...request,
+        title: script.title,
+        tone: script.tone,
+      });
+      
+      res.json({ suggestion });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else {
+        console.error("Error rewriting selection:", error);
+        res.status(500).json({ message: "Failed to rewrite selection" });
+      }
+    }
+  });
+
+  // Stream an in-progress iteration over Server-Sent Events
+  app.get('/api/scripts/:id/iterations/:iterationId/stream', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      const send = openEventStream(res);
+      let closed = false;
+      
+      // Subscribe before checking the status again, so an iteration that
+      // finishes in between still gets its done event delivered
+      const unsubscribe = generationEvents.subscribe(iterationId, (event: GenerationEvent) => {
+        if (event.type === 'reset') {
+          send('snapshot', { content: '' });
+        } else if (event.type === 'token') {
+          send('token', { text: event.text });
+        } else if (event.type === 'done') {
+          send('done', event.iteration);
+          close();
+        } else {
+          send('error', { message: event.message });
+          close();
+        }
+      });
+      
+      // Keep proxies from timing out an idle connection
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+      
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+      
+      req.on('close', close);
+      
+      // Nothing left to stream, hand back the finished iteration
+      const current = await storage.getScriptIteration(iterationId).catch((error) => {
+        close();
+        throw error;
+      });
+      if (closed) return;
+      if (!current || current.status !== 'in_progress') {
+        send('done', current ?? iteration);
+        return close();
+      }
+      
+      // Catch the client up on anything generated before it connected
+      send('snapshot', { content: generationEvents.getPartial(iterationId) ?? '' });
+    } catch (error) {
+      console.error("Error streaming iteration:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream iteration" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
   // Export script
   app.post('/api/scripts/:id/export', async (req: Request, res: Response) => {
     try {
-      const scriptId = parseInt(req.params.id);
       const settings = exportSettingsSchema.parse(req.body);
       
-      const script = await storage.getScript(scriptId);
+      const script = await getOwnedScript(req);
       if (!script) {
         return res.status(404).json({ message: "Script not found" });
       }
       
-      const iterations = await storage.getScriptIterations(scriptId);
+      const iterations = await storage.getScriptIterations(script.id);
       if (iterations.length === 0) {
         return res.status(400).json({ message: "No iterations to export" });
       }
       
-      // Get the latest completed iteration
-      const latestIteration = iterations
-        .filter(it => it.status === 'completed')
-        .sort((a, b) => b.iterationNumber - a.iterationNumber)[0];
-      
-      if (!latestIteration) {
-        return res.status(400).json({ message: "No completed iterations to export" });
+      const completed = iterations.filter(it => it.status === 'completed');
+      const baseName = script.title.replace(/\s+/g, '_');
+      const { contentType, extension } = EXPORT_FILE_TYPES[settings.format];
+      
+      // Branches share iteration numbers, so later drafts with a taken number get a suffix
+      const fileNames = new Map<number, string>();
+      const numbersUsed = new Map<number, number>();
+      for (const iteration of [...completed].sort((a, b) => a.id - b.id)) {
+        const count = (numbersUsed.get(iteration.iterationNumber) ?? 0) + 1;
+        numbersUsed.set(iteration.iterationNumber, count);
+        const suffix = count > 1 ? `_${count}` : '';
+        fileNames.set(iteration.id, `${baseName}_iteration_${iteration.iterationNumber}${suffix}.${extension}`);
       }
       
-      // Prepare metadata
-      const metadata = {
-        "Created": new Date().toLocaleDateString(),
-        "AI Model": script.aiModel,
-        "Tone": script.tone,
-        "Iterations": latestIteration.iterationNumber,
+      // Render one iteration, with the draft and the settings it was written with in the metadata
+      const render = (iteration: ScriptIteration) => {
+        const config = iterationConfig(script, iteration);
+        const parentId = parentIterationId(iteration, iterations);
+        const parent = iterations.find(it => it.id === parentId);
+        
+        const metadata: Record<string, string | number> = {
+          "Created": new Date().toLocaleDateString(),
+          "Draft": `Iteration ${iteration.iterationNumber}`,
+          "Drafted": new Date(iteration.createdAt).toLocaleString(),
+          "AI Model": config.aiModel,
+          "Tone": config.tone,
+        };
+        if (parent) {
+          metadata["Refines"] = `Iteration ${parent.iterationNumber}`;
+        }
+        
+        return exportScript(iterationDocument(iteration), script.title, settings.format, settings, metadata);
       };
       
-      // Generate the document content
-      const content = exportScript(
-        latestIteration.content,
-        script.title,
-        settings.format,
-        settings,
-        metadata
-      );
-      
-      // Set appropriate content type and filename
-      let contentType, filename;
-      switch (settings.format) {
-        case 'google_docs':
-        case 'word':
-          contentType = 'text/html';
-          filename = `${script.title.replace(/\s+/g, '_')}.html`;
-          break;
-        case 'markdown':
-          contentType = 'text/markdown';
-          filename = `${script.title.replace(/\s+/g, '_')}.md`;
-          break;
-        case 'text':
-        default:
-          contentType = 'text/plain';
-          filename = `${script.title.replace(/\s+/g, '_')}.txt`;
-          break;
+      // Every completed draft, one file each, in a zip
+      if (settings.allIterations) {
+        if (completed.length === 0) {
+          return res.status(400).json({ message: "No completed iterations to export" });
+        }
+        
+        const zip = createZip(completed.map(iteration => ({
+          name: fileNames.get(iteration.id)!,
+          data: render(iteration),
+        })));
+        
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${baseName}_iterations.zip"`);
+        return res.send(zip);
       }
       
+      // Export the requested iteration, or the latest completed one
+      let exportedIteration: ScriptIteration | undefined;
+      if (settings.iterationId !== undefined) {
+        exportedIteration = iterations.find(it => it.id === settings.iterationId);
+        if (!exportedIteration) {
+          return res.status(404).json({ message: "Iteration not found" });
+        }
+        if (exportedIteration.status !== 'completed') {
+          return res.status(409).json({ message: "Only completed iterations can be exported" });
+        }
+      } else {
+        exportedIteration = latestCompletedIteration(completed);
+      }
+      
+      if (!exportedIteration) {
+        return res.status(400).json({ message: "No completed iterations to export" });
+      }
+      
+      // Name the file after the draft unless it is the one exported by default
+      const isLatest = exportedIteration.id === latestCompletedIteration(completed)?.id;
+      const filename = isLatest ? `${baseName}.${extension}` : fileNames.get(exportedIteration.id)!;
+      
       res.setHeader('Content-Type', contentType);
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.send(content);
+      res.send(render(exportedIteration));
     } catch (error) {
       if (error instanceof ZodError) {
         res.status(400).json({ message: fromZodError(error).message });
@@ -190,10 +638,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Structured word-level diff between two iterations of a script
+  app.get('/api/scripts/:id/diff', async (req: Request, res: Response) => {
+    try {
+      const querySchema = z.object({
+        from: z.coerce.number().int(),
+        to: z.coerce.number().int(),
+      });
+      
+      const { from, to } = querySchema.parse(req.query);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const [fromIteration, toIteration] = await Promise.all([
+        storage.getScriptIteration(from),
+        storage.getScriptIteration(to),
+      ]);
+      if (!fromIteration || fromIteration.scriptId !== script.id || !toIteration || toIteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      res.json(diffIterations(fromIteration, toIteration));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else {
+        console.error("Error diffing iterations:", error);
+        res.status(500).json({ message: "Failed to diff iterations" });
+      }
+    }
+  });
+
   // Update script with edits
   app.put('/api/scripts/:id/iterations/:iterationId', async (req: Request, res: Response) => {
     try {
-      const scriptId = parseInt(req.params.id);
       const iterationId = parseInt(req.params.iterationId);
       
       const contentSchema = z.object({
@@ -202,21 +683,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { content } = contentSchema.parse(req.body);
       
-      const script = await storage.getScript(scriptId);
+      const script = await getOwnedScript(req);
       if (!script) {
         return res.status(404).json({ message: "Script not found" });
       }
       
       const iteration = await storage.getScriptIteration(iterationId);
-      if (!iteration || iteration.scriptId !== scriptId) {
+      if (!iteration || iteration.scriptId !== script.id) {
         return res.status(404).json({ message: "Iteration not found" });
       }
+      if (iteration.status === 'in_progress') {
+        return res.status(409).json({ message: "Iteration is still being generated" });
+      }
+      
+      await ensureBaselineRevision(iteration);
       
+      const document = parseScript(content);
       const updatedIteration = await storage.updateScriptIteration(iterationId, {
         content,
+        document,
         status: 'completed',
       });
       
+      await storage.createIterationRevision({
+        scriptId: script.id,
+        iterationId,
+        content,
+        document,
+        source: 'edit',
+        authorId: req.user!.id,
+      });
+      
       res.json(updatedIteration);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -228,8 +725,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved versions of an iteration, newest first
+  app.get('/api/scripts/:id/iterations/:iterationId/revisions', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      
+      const revisions = await storage.getIterationRevisions(iterationId);
+      
+      // Resolve each author once
+      const authorNames = new Map<number, string | null>();
+      for (const authorId of Array.from(new Set(revisions.map(revision => revision.authorId)))) {
+        if (authorId === null) continue;
+        const author = await storage.getUser(authorId);
+        authorNames.set(authorId, author?.username ?? null);
+      }
+      
+      const entries: IterationRevisionEntry[] = revisions.map(revision => ({
+        ...revision,
+        authorName: revision.authorId === null ? null : authorNames.get(revision.authorId) ?? null,
+      }));
+      
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Make an earlier revision the iteration's content again; the restore is
+  // itself recorded so it can be undone
+  app.post('/api/scripts/:id/iterations/:iterationId/revisions/:revisionId/restore', async (req: Request, res: Response) => {
+    try {
+      const iterationId = parseInt(req.params.iterationId);
+      const revisionId = parseInt(req.params.revisionId);
+      
+      const script = await getOwnedScript(req);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      
+      const iteration = await storage.getScriptIteration(iterationId);
+      if (!iteration || iteration.scriptId !== script.id) {
+        return res.status(404).json({ message: "Iteration not found" });
+      }
+      if (iteration.status === 'in_progress') {
+        return res.status(409).json({ message: "Iteration is still being generated" });
+      }
+      
+      const revision = await storage.getIterationRevision(revisionId);
+      if (!revision || revision.iterationId !== iteration.id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      const document = iterationDocument(revision);
+      const updatedIteration = await storage.updateScriptIteration(iterationId, {
+        content: revision.content,
+        document,
+        status: 'completed',
+      });
+      
+      await storage.createIterationRevision({
+        scriptId: script.id,
+        iterationId,
+        content: revision.content,
+        document,
+        source: 'restore',
+        authorId: req.user!.id,
+        restoredFromId: revision.id,
+      });
+      
+      res.json(updatedIteration);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
   // Helper function to start script generation
-  async function startScriptGeneration(script: any) {
+  async function startScriptGeneration(script: Script) {
     // Create an initial "in_progress" iteration
     const newIteration = await storage.createScriptIteration({
       scriptId: script.id,
@@ -239,103 +822,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       metrics: null,
     });
     
-    // Generate the content asynchronously
-    generateScriptContent(script, newIteration.id).catch(error => {
-      console.error("Error in async script generation:", error);
-    });
+    // Generate the content in the background job queue
+    await generationQueue.enqueue(newIteration);
     
     return newIteration;
   }
 
   // Helper function to generate next iteration
-  async function generateNextIteration(script: any, existingIterations: any[]) {
-    const nextIterationNumber = existingIterations.length + 1;
-    
+  // Refine the given iteration, keeping any settings its branch changed
+  async function generateNextIteration(script: Script, parent: ScriptIteration) {
     // Create a new "in_progress" iteration
     const newIteration = await storage.createScriptIteration({
       scriptId: script.id,
-      iterationNumber: nextIterationNumber,
+      iterationNumber: childIterationNumber(parent),
       content: "Generating next iteration...",
       status: 'in_progress',
       metrics: null,
+      parentId: parent.id,
+      overrides: parent.overrides as IterationOverrides | null,
     });
     
-    // Generate the content asynchronously
-    generateScriptContent(script, newIteration.id, existingIterations).catch(error => {
-      console.error("Error in async script generation:", error);
-    });
+    // Generate the content in the background job queue
+    await generationQueue.enqueue(newIteration);
     
     return newIteration;
   }
 
-  // Helper function to generate script content
-  async function generateScriptContent(script: any, iterationId: number, previousIterations: any[] = []) {
-    try {
-      // Get previous iteration contents
-      const prevContents = previousIterations
-        .filter(it => it.status === 'completed')
-        .map(it => it.content);
-      
-      // Generate content using the appropriate AI model
-      let content: string;
-      const options = {
-        title: script.title,
-        instructions: script.instructions,
-        structure: script.structure,
-        tone: script.tone,
-        length: script.length,
-        previousIterations: prevContents,
-        reduceRedundancy: script.settings?.reduceRedundancy,
-        enhanceClarity: script.settings?.enhanceClarity,
-        improveEngagement: script.settings?.improveEngagement,
-      };
-      
-      if (script.aiModel.toLowerCase().includes('claude')) {
-        content = await anthropic.generateScript(options);
-      } else {
-        content = await openai.generateScript(options);
-      }
-      
-      // Calculate metrics
-      let metrics: any = {};
-      
-      if (script.aiModel.toLowerCase().includes('claude')) {
-        metrics = await anthropic.analyzeScript(content);
-      } else {
-        metrics = await openai.analyzeScript(content);
-      }
-      
-      // If this is not the first iteration, calculate redundancy reduction
-      if (prevContents.length > 0) {
-        const lastContent = prevContents[prevContents.length - 1];
-        
-        let comparison;
-        if (script.aiModel.toLowerCase().includes('claude')) {
-          comparison = await anthropic.compareScripts(lastContent, content);
-        } else {
-          comparison = await openai.compareScripts(lastContent, content);
-        }
-        
-        metrics.redundancyReduction = comparison.redundancyReduction;
-        metrics.improvementAreas = comparison.improvementAreas;
-      }
-      
-      // Update the iteration with the generated content and metrics
-      await storage.updateScriptIteration(iterationId, {
-        content,
-        status: 'completed',
-        metrics,
-      });
-    } catch (error) {
-      console.error("Error generating script content:", error);
-      
-      // Update the iteration with the error status
-      await storage.updateScriptIteration(iterationId, {
-        content: "Error generating script content.",
-        status: 'failed',
-      });
-    }
-  }
+  // Pick up generation work interrupted by a restart
+  await generationQueue.recover();
 
   const httpServer = createServer(app);
   return httpServer;
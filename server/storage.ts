@@ -2,6 +2,8 @@ import {
   users,
   scripts,
   scriptIterations,
+  generationJobs,
+  iterationRevisions,
   type User,
   type InsertUser,
   type Script,
@@ -9,10 +11,34 @@ import {
   type ScriptIteration,
   type InsertScriptIteration,
   type ScriptSettings,
-  type ScriptMetrics
+  type ScriptMetrics,
+  type GenerationJob,
+  type InsertGenerationJob,
+  type IterationRevision,
+  type InsertIterationRevision,
+  type ScriptLibraryPage,
+  type ScriptLibraryQuery,
+  type ScriptSummary
 } from "@shared/schema";
+import { latestCompletedIteration } from "@shared/iteration-tree";
+import { and, asc, desc, eq, exists, ilike, inArray, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Library search terms; a script matches when it contains every one of them
+function searchTerms(q: string | undefined): string[] {
+  return (q ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+}
 
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -21,6 +47,7 @@ export interface IStorage {
   // Script operations
   getScript(id: number): Promise<Script | undefined>;
   getUserScripts(userId: number): Promise<Script[]>;
+  searchUserScripts(userId: number, query: ScriptLibraryQuery): Promise<ScriptLibraryPage>;
   createScript(script: InsertScript): Promise<Script>;
   updateScript(id: number, script: Partial<Script>): Promise<Script | undefined>;
   deleteScript(id: number): Promise<boolean>;
@@ -30,23 +57,50 @@ export interface IStorage {
   getScriptIteration(id: number): Promise<ScriptIteration | undefined>;
   createScriptIteration(iteration: InsertScriptIteration): Promise<ScriptIteration>;
   updateScriptIteration(id: number, iteration: Partial<ScriptIteration>): Promise<ScriptIteration | undefined>;
+  getIterationsByStatus(status: string): Promise<ScriptIteration[]>;
+  
+  // Iteration revision operations
+  getIterationRevisions(iterationId: number): Promise<IterationRevision[]>;
+  getIterationRevision(id: number): Promise<IterationRevision | undefined>;
+  createIterationRevision(revision: InsertIterationRevision): Promise<IterationRevision>;
+  
+  // Generation job operations
+  getGenerationJob(id: number): Promise<GenerationJob | undefined>;
+  getIterationGenerationJobs(iterationId: number): Promise<GenerationJob[]>;
+  getGenerationJobsByStatus(statuses: string[]): Promise<GenerationJob[]>;
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  updateGenerationJob(id: number, job: Partial<GenerationJob>): Promise<GenerationJob | undefined>;
+  // Update a job only while it still has the given status; undefined when it no longer does
+  transitionGenerationJob(id: number, fromStatus: string, job: Partial<GenerationJob>): Promise<GenerationJob | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private scripts: Map<number, Script>;
   private scriptIterations: Map<number, ScriptIteration>;
+  private generationJobs: Map<number, GenerationJob>;
+  private iterationRevisions: Map<number, IterationRevision>;
   private userId: number;
   private scriptId: number;
   private iterationId: number;
+  private jobId: number;
+  private revisionId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.scripts = new Map();
     this.scriptIterations = new Map();
+    this.generationJobs = new Map();
+    this.iterationRevisions = new Map();
     this.userId = 1;
     this.scriptId = 1;
     this.iterationId = 1;
+    this.jobId = 1;
+    this.revisionId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
   }
 
   // User operations
@@ -78,10 +132,58 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async searchUserScripts(userId: number, query: ScriptLibraryQuery): Promise<ScriptLibraryPage> {
+    const terms = searchTerms(query.q);
+    const matches: ScriptSummary[] = [];
+
+    for (const script of await this.getUserScripts(userId)) {
+      const iterations = await this.getScriptIterations(script.id);
+      // Branches share iteration numbers, so the newest iteration is the last one created
+      const latest = iterations.reduce<ScriptIteration | undefined>((newest, it) => !newest || it.id > newest.id ? it : newest, undefined);
+      const completed = latestCompletedIteration(iterations);
+      const status = latest?.status ?? 'in_progress';
+
+      if (query.tone && script.tone !== query.tone) continue;
+      if (query.aiModel && script.aiModel !== query.aiModel) continue;
+      if (query.status && status !== query.status) continue;
+
+      const texts = [script.title, script.instructions, ...iterations.map(it => it.content)].map(text => text.toLowerCase());
+      if (!terms.every(term => texts.some(text => text.includes(term)))) continue;
+
+      matches.push({
+        ...script,
+        status,
+        iterationCount: iterations.length,
+        estimatedDuration: (completed?.metrics as ScriptMetrics | null)?.estimatedDuration ?? null,
+      });
+    }
+
+    // Scripts without a duration sort last either way
+    const duration = (summary: ScriptSummary, fallback: number) => summary.estimatedDuration ?? fallback;
+    const compare: Record<ScriptLibraryQuery['sort'], (a: ScriptSummary, b: ScriptSummary) => number> = {
+      newest: (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id,
+      oldest: (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id,
+      longest: (a, b) => duration(b, -Infinity) - duration(a, -Infinity) || b.id - a.id,
+      shortest: (a, b) => duration(a, Infinity) - duration(b, Infinity) || b.id - a.id,
+    };
+    matches.sort(compare[query.sort]);
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      scripts: matches.slice(offset, offset + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
   async createScript(insertScript: InsertScript): Promise<Script> {
     const id = this.scriptId++;
     const script: Script = {
       ...insertScript,
+      userId: insertScript.userId ?? null,
+      structure: insertScript.structure ?? null,
+      settings: insertScript.settings ?? null,
       id,
       createdAt: new Date()
     };
@@ -99,7 +201,14 @@ export class MemStorage implements IStorage {
   }
 
   async deleteScript(id: number): Promise<boolean> {
-    // Delete all iterations first
+    // Delete generation jobs, revisions and iterations first
+    for (const job of Array.from(this.generationJobs.values())) {
+      if (job.scriptId === id) this.generationJobs.delete(job.id);
+    }
+    for (const revision of Array.from(this.iterationRevisions.values())) {
+      if (revision.scriptId === id) this.iterationRevisions.delete(revision.id);
+    }
+    
     const iterations = await this.getScriptIterations(id);
     for (const iteration of iterations) {
       this.scriptIterations.delete(iteration.id);
@@ -112,7 +221,7 @@ export class MemStorage implements IStorage {
   async getScriptIterations(scriptId: number): Promise<ScriptIteration[]> {
     return Array.from(this.scriptIterations.values()).filter(
       (iteration) => iteration.scriptId === scriptId
-    ).sort((a, b) => a.iterationNumber - b.iterationNumber);
+    ).sort((a, b) => a.iterationNumber - b.iterationNumber || a.id - b.id);
   }
 
   async getScriptIteration(id: number): Promise<ScriptIteration | undefined> {
@@ -123,6 +232,10 @@ export class MemStorage implements IStorage {
     const id = this.iterationId++;
     const iteration: ScriptIteration = {
       ...insertIteration,
+      metrics: insertIteration.metrics ?? null,
+      document: insertIteration.document ?? null,
+      parentId: insertIteration.parentId ?? null,
+      overrides: insertIteration.overrides ?? null,
       id,
       createdAt: new Date()
     };
@@ -138,6 +251,353 @@ export class MemStorage implements IStorage {
     this.scriptIterations.set(id, updatedIteration);
     return updatedIteration;
   }
+
+  async getIterationsByStatus(status: string): Promise<ScriptIteration[]> {
+    return Array.from(this.scriptIterations.values()).filter(
+      (iteration) => iteration.status === status
+    );
+  }
+
+  // Iteration revision operations
+  async getIterationRevisions(iterationId: number): Promise<IterationRevision[]> {
+    return Array.from(this.iterationRevisions.values()).filter(
+      (revision) => revision.iterationId === iterationId
+    ).sort((a, b) => b.id - a.id);
+  }
+
+  async getIterationRevision(id: number): Promise<IterationRevision | undefined> {
+    return this.iterationRevisions.get(id);
+  }
+
+  async createIterationRevision(insertRevision: InsertIterationRevision): Promise<IterationRevision> {
+    const id = this.revisionId++;
+    const revision: IterationRevision = {
+      ...insertRevision,
+      document: insertRevision.document ?? null,
+      authorId: insertRevision.authorId ?? null,
+      restoredFromId: insertRevision.restoredFromId ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.iterationRevisions.set(id, revision);
+    return revision;
+  }
+
+  // Generation job operations
+  async getGenerationJob(id: number): Promise<GenerationJob | undefined> {
+    return this.generationJobs.get(id);
+  }
+
+  async getIterationGenerationJobs(iterationId: number): Promise<GenerationJob[]> {
+    return Array.from(this.generationJobs.values()).filter(
+      (job) => job.iterationId === iterationId
+    ).sort((a, b) => a.id - b.id);
+  }
+
+  async getGenerationJobsByStatus(statuses: string[]): Promise<GenerationJob[]> {
+    return Array.from(this.generationJobs.values()).filter(
+      (job) => statuses.includes(job.status)
+    ).sort((a, b) => a.id - b.id);
+  }
+
+  async createGenerationJob(insertJob: InsertGenerationJob): Promise<GenerationJob> {
+    const id = this.jobId++;
+    const now = new Date();
+    const job: GenerationJob = {
+      ...insertJob,
+      attempts: insertJob.attempts ?? 0,
+      error: insertJob.error ?? null,
+      task: insertJob.task ?? null,
+      runAfter: insertJob.runAfter ?? now,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.generationJobs.set(id, job);
+    return job;
+  }
+
+  async updateGenerationJob(id: number, jobUpdate: Partial<GenerationJob>): Promise<GenerationJob | undefined> {
+    const job = this.generationJobs.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...jobUpdate, updatedAt: new Date() };
+    this.generationJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async transitionGenerationJob(id: number, fromStatus: string, jobUpdate: Partial<GenerationJob>): Promise<GenerationJob | undefined> {
+    if (this.generationJobs.get(id)?.status !== fromStatus) return undefined;
+    return this.updateGenerationJob(id, jobUpdate);
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Script operations
+  async getScript(id: number): Promise<Script | undefined> {
+    const [script] = await this.db.select().from(scripts).where(eq(scripts.id, id));
+    return script;
+  }
+
+  async getUserScripts(userId: number): Promise<Script[]> {
+    return this.db.select().from(scripts).where(eq(scripts.userId, userId));
+  }
+
+  async searchUserScripts(userId: number, query: ScriptLibraryQuery): Promise<ScriptLibraryPage> {
+    // The most recently created iteration of each script, and its newest completed one
+    const latest = this.db
+      .selectDistinctOn([scriptIterations.scriptId], {
+        scriptId: scriptIterations.scriptId,
+        status: scriptIterations.status,
+        iterationCount: sql<number>`count(*) over (partition by ${scriptIterations.scriptId})::int`.as("iteration_count"),
+      })
+      .from(scriptIterations)
+      .orderBy(scriptIterations.scriptId, desc(scriptIterations.id))
+      .as("latest");
+    const completed = this.db
+      .selectDistinctOn([scriptIterations.scriptId], {
+        scriptId: scriptIterations.scriptId,
+        estimatedDuration: sql<number | null>`(${scriptIterations.metrics}->>'estimatedDuration')::float`.as("estimated_duration"),
+      })
+      .from(scriptIterations)
+      .where(eq(scriptIterations.status, 'completed'))
+      .orderBy(scriptIterations.scriptId, desc(scriptIterations.id))
+      .as("completed");
+
+    const conditions: SQL[] = [eq(scripts.userId, userId)];
+    if (query.tone) conditions.push(eq(scripts.tone, query.tone));
+    if (query.aiModel) conditions.push(eq(scripts.aiModel, query.aiModel));
+    if (query.status) conditions.push(eq(latest.status, query.status));
+    for (const term of searchTerms(query.q)) {
+      const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(scripts.title, pattern),
+        ilike(scripts.instructions, pattern),
+        exists(this.db
+          .select({ id: scriptIterations.id })
+          .from(scriptIterations)
+          .where(and(eq(scriptIterations.scriptId, scripts.id), ilike(scriptIterations.content, pattern)))),
+      )!);
+    }
+    const where = and(...conditions);
+
+    // Scripts without a duration sort last either way
+    const order: Record<ScriptLibraryQuery['sort'], SQL[]> = {
+      newest: [desc(scripts.createdAt), desc(scripts.id)],
+      oldest: [asc(scripts.createdAt), asc(scripts.id)],
+      longest: [sql`${completed.estimatedDuration} desc nulls last`, desc(scripts.id)],
+      shortest: [sql`${completed.estimatedDuration} asc nulls last`, desc(scripts.id)],
+    };
+
+    const rows = await this.db
+      .select({
+        script: scripts,
+        status: latest.status,
+        iterationCount: latest.iterationCount,
+        estimatedDuration: completed.estimatedDuration,
+      })
+      .from(scripts)
+      .leftJoin(latest, eq(latest.scriptId, scripts.id))
+      .leftJoin(completed, eq(completed.scriptId, scripts.id))
+      .where(where)
+      .orderBy(...order[query.sort])
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(scripts)
+      .leftJoin(latest, eq(latest.scriptId, scripts.id))
+      .where(where);
+
+    return {
+      scripts: rows.map(row => ({
+        ...row.script,
+        status: row.status ?? 'in_progress',
+        iterationCount: row.iterationCount ?? 0,
+        estimatedDuration: row.estimatedDuration,
+      })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async createScript(insertScript: InsertScript): Promise<Script> {
+    const [script] = await this.db.insert(scripts).values(insertScript).returning();
+    return script;
+  }
+
+  async updateScript(id: number, scriptUpdate: Partial<Script>): Promise<Script | undefined> {
+    const { id: _id, ...values } = scriptUpdate;
+    const [script] = await this.db
+      .update(scripts)
+      .set(values)
+      .where(eq(scripts.id, id))
+      .returning();
+    return script;
+  }
+
+  async deleteScript(id: number): Promise<boolean> {
+    // Delete iterations and the script together so a failure leaves neither orphaned
+    return this.db.transaction(async (tx) => {
+      await tx.delete(generationJobs).where(eq(generationJobs.scriptId, id));
+      await tx.delete(iterationRevisions).where(eq(iterationRevisions.scriptId, id));
+      await tx.delete(scriptIterations).where(eq(scriptIterations.scriptId, id));
+      const deleted = await tx
+        .delete(scripts)
+        .where(eq(scripts.id, id))
+        .returning({ id: scripts.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Script iteration operations
+  async getScriptIterations(scriptId: number): Promise<ScriptIteration[]> {
+    return this.db
+      .select()
+      .from(scriptIterations)
+      .where(eq(scriptIterations.scriptId, scriptId))
+      .orderBy(asc(scriptIterations.iterationNumber), asc(scriptIterations.id));
+  }
+
+  async getScriptIteration(id: number): Promise<ScriptIteration | undefined> {
+    const [iteration] = await this.db
+      .select()
+      .from(scriptIterations)
+      .where(eq(scriptIterations.id, id));
+    return iteration;
+  }
+
+  async createScriptIteration(insertIteration: InsertScriptIteration): Promise<ScriptIteration> {
+    const [iteration] = await this.db
+      .insert(scriptIterations)
+      .values(insertIteration)
+      .returning();
+    return iteration;
+  }
+
+  async updateScriptIteration(id: number, iterationUpdate: Partial<ScriptIteration>): Promise<ScriptIteration | undefined> {
+    const { id: _id, ...values } = iterationUpdate;
+    const [iteration] = await this.db
+      .update(scriptIterations)
+      .set(values)
+      .where(eq(scriptIterations.id, id))
+      .returning();
+    return iteration;
+  }
+
+  async getIterationsByStatus(status: string): Promise<ScriptIteration[]> {
+    return this.db
+      .select()
+      .from(scriptIterations)
+      .where(eq(scriptIterations.status, status));
+  }
+
+  // Iteration revision operations
+  async getIterationRevisions(iterationId: number): Promise<IterationRevision[]> {
+    return this.db
+      .select()
+      .from(iterationRevisions)
+      .where(eq(iterationRevisions.iterationId, iterationId))
+      .orderBy(desc(iterationRevisions.id));
+  }
+
+  async getIterationRevision(id: number): Promise<IterationRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(iterationRevisions)
+      .where(eq(iterationRevisions.id, id));
+    return revision;
+  }
+
+  async createIterationRevision(insertRevision: InsertIterationRevision): Promise<IterationRevision> {
+    const [revision] = await this.db
+      .insert(iterationRevisions)
+      .values(insertRevision)
+      .returning();
+    return revision;
+  }
+
+  // Generation job operations
+  async getGenerationJob(id: number): Promise<GenerationJob | undefined> {
+    const [job] = await this.db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job;
+  }
+
+  async getIterationGenerationJobs(iterationId: number): Promise<GenerationJob[]> {
+    return this.db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.iterationId, iterationId))
+      .orderBy(asc(generationJobs.id));
+  }
+
+  async getGenerationJobsByStatus(statuses: string[]): Promise<GenerationJob[]> {
+    return this.db
+      .select()
+      .from(generationJobs)
+      .where(inArray(generationJobs.status, statuses))
+      .orderBy(asc(generationJobs.id));
+  }
+
+  async createGenerationJob(insertJob: InsertGenerationJob): Promise<GenerationJob> {
+    const [job] = await this.db.insert(generationJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateGenerationJob(id: number, jobUpdate: Partial<GenerationJob>): Promise<GenerationJob | undefined> {
+    const { id: _id, ...values } = jobUpdate;
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(generationJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async transitionGenerationJob(id: number, fromStatus: string, jobUpdate: Partial<GenerationJob>): Promise<GenerationJob | undefined> {
+    const { id: _id, ...values } = jobUpdate;
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.status, fromStatus)))
+      .returning();
+    return job;
+  }
+}
+
+// Use Postgres when a database is configured, otherwise keep everything in memory
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(createDb(process.env.DATABASE_URL));
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
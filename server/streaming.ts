@@ -0,0 +1,95 @@
+import { EventEmitter } from "events";
+import type { Response } from "express";
+import type { ScriptIteration } from "@shared/schema";
+import { storage } from "./storage";
+
+// How often partial content is written back to storage while streaming
+const PERSIST_INTERVAL_MS = 1000;
+
+// Events published for an iteration while it is being generated
+export type GenerationEvent =
+  | { type: "reset" }
+  | { type: "token"; text: string }
+  | { type: "done"; iteration: ScriptIteration }
+  | { type: "error"; message: string };
+
+type Listener = (event: GenerationEvent) => void;
+
+// In-process hub that fans generation output out to every open SSE connection
+class GenerationEvents {
+  private emitter = new EventEmitter();
+  private partials = new Map<number, string>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  // Content generated so far for an iteration that is still streaming
+  getPartial(iterationId: number): string | undefined {
+    return this.partials.get(iterationId);
+  }
+
+  subscribe(iterationId: number, listener: Listener): () => void {
+    const key = String(iterationId);
+    this.emitter.on(key, listener);
+    return () => this.emitter.off(key, listener);
+  }
+
+  // Start (or restart, on retry) streaming an iteration from empty
+  begin(iterationId: number) {
+    this.partials.set(iterationId, "");
+    this.emitter.emit(String(iterationId), { type: "reset" });
+  }
+
+  token(iterationId: number, text: string) {
+    this.partials.set(iterationId, (this.partials.get(iterationId) ?? "") + text);
+    this.emitter.emit(String(iterationId), { type: "token", text });
+  }
+
+  done(iterationId: number, iteration: ScriptIteration) {
+    this.partials.delete(iterationId);
+    this.emitter.emit(String(iterationId), { type: "done", iteration });
+  }
+
+  error(iterationId: number, message: string) {
+    this.partials.delete(iterationId);
+    this.emitter.emit(String(iterationId), { type: "error", message });
+  }
+}
+
+export const generationEvents = new GenerationEvents();
+
+// Consume a token stream for an iteration, publishing each token and
+// periodically persisting the partial content. Resolves with the full text.
+export async function streamToIteration(iterationId: number, tokens: AsyncIterable<string>): Promise<string> {
+  let content = "";
+  let lastPersisted = Date.now();
+
+  generationEvents.begin(iterationId);
+
+  for await (const text of tokens) {
+    content += text;
+    generationEvents.token(iterationId, text);
+
+    if (Date.now() - lastPersisted >= PERSIST_INTERVAL_MS) {
+      lastPersisted = Date.now();
+      await storage.updateScriptIteration(iterationId, { content });
+    }
+  }
+
+  return content;
+}
+
+// Prepare a response for Server-Sent Events and return a typed sender
+export function openEventStream(res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  return (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
@@ -0,0 +1,91 @@
+import type { IterationOverrides, Script, ScriptIteration, ScriptSettings } from "./schema";
+
+// Iterations form a tree: each one refines its parent, and forks and section
+// rewrites give a parent several children. Iterations saved before parents
+// were recorded have no parentId and refine the iteration numbered just before them.
+
+export function parentIterationId(
+  iteration: Pick<ScriptIteration, "parentId" | "iterationNumber">,
+  iterations: ScriptIteration[],
+): number | undefined {
+  if (iteration.parentId !== null) return iteration.parentId;
+  return iterations.find(it => it.iterationNumber === iteration.iterationNumber - 1)?.id;
+}
+
+// The ancestors of an iteration, oldest first
+export function iterationLineage(
+  iteration: Pick<ScriptIteration, "parentId" | "iterationNumber">,
+  iterations: ScriptIteration[],
+): ScriptIteration[] {
+  const byId = new Map(iterations.map(it => [it.id, it]));
+  const lineage: ScriptIteration[] = [];
+
+  let parent = byId.get(parentIterationId(iteration, iterations) ?? -1);
+  while (parent && !lineage.includes(parent)) {
+    lineage.unshift(parent);
+    parent = byId.get(parentIterationId(parent, iterations) ?? -1);
+  }
+  return lineage;
+}
+
+// Iteration numbers count refinement passes along a branch. A refinement or a
+// fork is one pass past the iteration it builds on, while a section rewrite
+// edits its source and keeps its number, so siblings can share a number.
+export function childIterationNumber(parent?: Pick<ScriptIteration, "iterationNumber">): number {
+  return (parent?.iterationNumber ?? 0) + 1;
+}
+
+// The newest completed iteration, which "Generate next" and auto-refine build on
+export function latestCompletedIteration(iterations: ScriptIteration[]): ScriptIteration | undefined {
+  return iterations
+    .filter(it => it.status === "completed")
+    .reduce<ScriptIteration | undefined>((latest, it) => !latest || it.id > latest.id ? it : latest, undefined);
+}
+
+// Whether the latest branch still has refinement passes left in the script's budget
+export function hasRefinementPassesLeft(script: Pick<Script, "iterations">, iterations: ScriptIteration[]): boolean {
+  return childIterationNumber(latestCompletedIteration(iterations)) <= script.iterations;
+}
+
+export interface IterationNode {
+  iteration: ScriptIteration;
+  children: IterationNode[];
+}
+
+// Roots of the iteration tree, children in creation order
+export function buildIterationTree(iterations: ScriptIteration[]): IterationNode[] {
+  const sorted = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber || a.id - b.id);
+  const nodes = new Map(sorted.map(it => [it.id, { iteration: it, children: [] } as IterationNode]));
+  const roots: IterationNode[] = [];
+
+  for (const iteration of sorted) {
+    const node = nodes.get(iteration.id)!;
+    const parent = nodes.get(parentIterationId(iteration, sorted) ?? -1);
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+export interface IterationConfig {
+  aiModel: string;
+  tone: string;
+  settings: Partial<ScriptSettings>;
+}
+
+// The model, tone and refinement settings an iteration is generated with
+export function iterationConfig(
+  script: Pick<Script, "aiModel" | "tone" | "settings">,
+  iteration: Pick<ScriptIteration, "overrides">,
+): IterationConfig {
+  const { aiModel, tone, ...toggles } = (iteration.overrides as IterationOverrides | null) ?? {};
+  const settings = { ...(script.settings as ScriptSettings | null) };
+  for (const [key, value] of Object.entries(toggles)) {
+    if (value !== undefined) settings[key as keyof typeof toggles] = value;
+  }
+
+  return {
+    aiModel: aiModel ?? script.aiModel,
+    tone: tone ?? script.tone,
+    settings,
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,9 +27,39 @@ export const scriptIterations = pgTable("script_iterations", {
   scriptId: integer("script_id").references(() => scripts.id).notNull(),
   iterationNumber: integer("iteration_number").notNull(),
   content: text("content").notNull(),
-  status: text("status").notNull(), // 'in_progress', 'completed', 'failed'
+  status: text("status").notNull(), // 'in_progress', 'completed', 'failed', 'cancelled'
   createdAt: timestamp("created_at").notNull().defaultNow(),
   metrics: jsonb("metrics"), // store metrics like redundancy reduction percentage
+  document: jsonb("document"), // parsed ScriptDocument for the content, set once completed
+  parentId: integer("parent_id").references((): AnyPgColumn => scriptIterations.id), // iteration this one refines; null for the first draft
+  overrides: jsonb("overrides"), // IterationOverrides applied on top of the script's settings
+});
+
+export const generationJobs = pgTable("generation_jobs", {
+  id: serial("id").primaryKey(),
+  scriptId: integer("script_id").references(() => scripts.id).notNull(),
+  iterationId: integer("iteration_id").references(() => scriptIterations.id).notNull(),
+  status: text("status").notNull(), // 'queued', 'running', 'succeeded', 'failed', 'cancelled'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  error: text("error"),
+  task: jsonb("task"), // GenerationTask; null when the whole iteration is generated
+  runAfter: timestamp("run_after").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Every saved version of an iteration, so AI drafts and manual edits are never lost
+export const iterationRevisions = pgTable("iteration_revisions", {
+  id: serial("id").primaryKey(),
+  scriptId: integer("script_id").references(() => scripts.id).notNull(),
+  iterationId: integer("iteration_id").references(() => scriptIterations.id).notNull(),
+  content: text("content").notNull(),
+  document: jsonb("document"),
+  source: text("source").notNull(), // 'ai', 'edit', 'restore', 'import'
+  authorId: integer("author_id").references(() => users.id), // null for AI drafts
+  restoredFromId: integer("restored_from_id"), // revision a restore copied
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Schema definitions
@@ -48,9 +78,28 @@ export const insertScriptIterationSchema = createInsertSchema(scriptIterations).
   createdAt: true,
 });
 
+export const insertIterationRevisionSchema = createInsertSchema(iterationRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Credentials accepted by the register and login endpoints
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const insertGenerationJobSchema = createInsertSchema(generationJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+export type Credentials = z.infer<typeof credentialsSchema>;
 
 export type InsertScript = z.infer<typeof insertScriptSchema>;
 export type Script = typeof scripts.$inferSelect;
@@ -58,20 +107,95 @@ export type Script = typeof scripts.$inferSelect;
 export type InsertScriptIteration = z.infer<typeof insertScriptIterationSchema>;
 export type ScriptIteration = typeof scriptIterations.$inferSelect;
 
+export type InsertIterationRevision = z.infer<typeof insertIterationRevisionSchema>;
+export type IterationRevision = typeof iterationRevisions.$inferSelect;
+export type IterationRevisionSource = 'ai' | 'edit' | 'restore' | 'import';
+// A revision as listed by the API, with the author's username
+export type IterationRevisionEntry = IterationRevision & { authorName: string | null };
+
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
 // Custom types for frontend use
+// Work a generation job does other than writing a whole iteration
+export const generationTaskSchema = z.object({
+  type: z.literal('regenerate_section'),
+  sourceIterationId: z.number(), // iteration whose other sections are kept as-is
+  sectionIndex: z.number(),
+  instructions: z.string().optional(),
+});
+
+export type GenerationTask = z.infer<typeof generationTaskSchema>;
+
 export const scriptSettingsSchema = z.object({
   reduceRedundancy: z.boolean().default(true),
   enhanceClarity: z.boolean().default(true),
   improveEngagement: z.boolean().default(true),
+  autoRefine: z.boolean().default(false), // chain the remaining iterations after the first completes
+  structuredOutput: z.boolean().default(false), // have the model return schema-validated JSON instead of free text
 });
 
 export type ScriptSettings = z.infer<typeof scriptSettingsSchema>;
 
+// Settings a branch changes from the script it belongs to
+export const iterationOverridesSchema = z.object({
+  aiModel: z.string().optional(),
+  tone: z.string().optional(),
+  reduceRedundancy: z.boolean().optional(),
+  enhanceClarity: z.boolean().optional(),
+  improveEngagement: z.boolean().optional(),
+});
+
+export type IterationOverrides = z.infer<typeof iterationOverridesSchema>;
+
+export const sectionMetricsSchema = z.object({
+  title: z.string(),
+  wordCount: z.number(),
+  estimatedDuration: z.number(), // seconds of spoken text
+});
+
+export type SectionMetrics = z.infer<typeof sectionMetricsSchema>;
+
+export const redundancyClusterSchema = z.object({
+  sentences: z.array(z.string()), // distinct wordings of the repeated sentence
+  occurrences: z.number(),
+});
+
+export const sectionRedundancySchema = z.object({
+  title: z.string(),
+  score: z.number(), // % of the section's phrases repeated elsewhere in the script
+});
+
+export const redundancyReportSchema = z.object({
+  score: z.number(), // % of 4-word phrases that repeat an earlier one
+  clusters: z.array(redundancyClusterSchema),
+  sections: z.array(sectionRedundancySchema),
+});
+
+export type RedundancyCluster = z.infer<typeof redundancyClusterSchema>;
+export type SectionRedundancy = z.infer<typeof sectionRedundancySchema>;
+export type RedundancyReport = z.infer<typeof redundancyReportSchema>;
+
 export const scriptMetricsSchema = z.object({
   redundancyReduction: z.number().optional(),
+  improvementAreas: z.array(z.string()).optional(),
   wordCount: z.number().optional(),
   estimatedDuration: z.number().optional(),
-  readabilityScore: z.number().optional(),
+  readabilityScore: z.number().optional(), // 1-10, derived from Flesch reading ease
+  fleschReadingEase: z.number().optional(),
+  fleschKincaidGrade: z.number().optional(),
+  sentenceLengths: z.object({
+    average: z.number(),
+    longest: z.number(),
+    short: z.number(), // 10 words or fewer
+    medium: z.number(), // 11-20 words
+    long: z.number(), // more than 20 words
+  }).optional(),
+  fillerWordDensity: z.number().optional(), // filler words per 100 words
+  fillerWords: z.record(z.number()).optional(),
+  sections: z.array(sectionMetricsSchema).optional(),
+  redundancy: redundancyReportSchema.optional(),
 });
 
 export type ScriptMetrics = z.infer<typeof scriptMetricsSchema>;
@@ -90,9 +214,20 @@ export const createScriptSchema = z.object({
 
 export type CreateScriptInput = z.infer<typeof createScriptSchema>;
 
+// Import an existing draft, transcript or screenplay as a completed first
+// iteration for the wizard to refine
+export const importScriptSchema = createScriptSchema.extend({
+  title: z.string().max(100).optional(), // defaults to the title in the imported file
+  instructions: z.string().optional(),
+  format: z.enum(["text", "markdown", "docx", "srt", "fountain"]),
+  source: z.string().min(1, "Nothing to import").max(7000000, "The imported file is too large"), // base64 for docx
+});
+
+export type ImportScriptInput = z.infer<typeof importScriptSchema>;
+
 // Export settings schema
 export const exportSettingsSchema = z.object({
-  format: z.enum(["google_docs", "word", "text", "markdown"]),
+  format: z.enum(["google_docs", "word", "odt", "pdf", "text", "markdown", "teleprompter", "srt", "vtt", "fountain"]),
   includeMetadata: z.boolean().default(true),
   includeTimestamps: z.boolean().default(true),
   includeSections: z.boolean().default(true),
@@ -100,6 +235,132 @@ export const exportSettingsSchema = z.object({
   enableSharing: z.boolean().default(true),
   sendEmail: z.boolean().default(false),
   email: z.string().email().optional(),
+  iterationId: z.coerce.number().int().positive().optional(), // defaults to the latest completed iteration
+  allIterations: z.boolean().default(false), // one file per completed iteration, zipped
+  pdfLayout: z.enum(["av", "shooting"]).default("av"), // two-column A/V script or numbered shooting script
 });
 
 export type ExportSettings = z.infer<typeof exportSettingsSchema>;
+
+// Search, filters, sort and pagination for the script library (GET /api/scripts)
+export const iterationStatuses = ['in_progress', 'completed', 'failed', 'cancelled'] as const;
+export const librarySortOptions = ['newest', 'oldest', 'longest', 'shortest'] as const;
+
+export const scriptLibraryQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(), // every word must appear in the title, instructions or an iteration
+  tone: z.string().optional(),
+  aiModel: z.string().optional(),
+  status: z.enum(iterationStatuses).optional(), // status of the newest iteration
+  sort: z.enum(librarySortOptions).default('newest'), // by creation date or estimated duration
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(12),
+});
+
+export type IterationStatus = typeof iterationStatuses[number];
+export type LibrarySort = typeof librarySortOptions[number];
+export type ScriptLibraryQuery = z.infer<typeof scriptLibraryQuerySchema>;
+
+// A script as listed in the library, summarised from its iterations
+export type ScriptSummary = Script & {
+  status: string; // of the newest iteration
+  iterationCount: number;
+  estimatedDuration: number | null; // seconds, from the newest completed iteration
+};
+
+export interface ScriptLibraryPage {
+  scripts: ScriptSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// AI model catalogue returned by GET /api/models
+export const aiModelCapabilitiesSchema = z.object({
+  generate: z.boolean(),
+  analyze: z.boolean(),
+  compare: z.boolean(),
+  stream: z.boolean(),
+  structured: z.boolean(), // can return the script as a JSON-schema constrained document
+});
+
+export type AIModelCapabilities = z.infer<typeof aiModelCapabilitiesSchema>;
+
+export const aiModelInfoSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  description: z.string(),
+  provider: z.string(),
+  available: z.boolean(),
+  capabilities: aiModelCapabilitiesSchema,
+});
+
+export type AIModelInfo = z.infer<typeof aiModelInfoSchema>;
+
+// AI rewrite of a passage selected in the review editor
+export const selectionRewriteActions = ['shorten', 'expand', 'funnier', 'simplify', 'match_tone'] as const;
+
+export const selectionRewriteSchema = z.object({
+  action: z.enum(selectionRewriteActions),
+  selection: z.string().trim().min(1, "Select some text to rewrite").max(4000),
+  before: z.string().max(2000).default(''), // text just before the selection, for context
+  after: z.string().max(2000).default(''),
+});
+
+export type SelectionRewriteAction = typeof selectionRewriteActions[number];
+export type SelectionRewriteRequest = z.infer<typeof selectionRewriteSchema>;
+
+// Structured diff between two iterations returned by GET /api/scripts/:id/diff
+export const diffChunkSchema = z.object({
+  type: z.enum(['equal', 'insert', 'delete']),
+  text: z.string(),
+});
+
+export type DiffChunk = z.infer<typeof diffChunkSchema>;
+
+export const sectionDiffSchema = z.object({
+  title: z.string(),
+  previousTitle: z.string().optional(), // set when the section was renamed
+  status: z.enum(['unchanged', 'modified', 'added', 'removed']),
+  chunks: z.array(diffChunkSchema),
+});
+
+export type SectionDiff = z.infer<typeof sectionDiffSchema>;
+
+export const scriptDiffSchema = z.object({
+  fromIterationId: z.number(),
+  toIterationId: z.number(),
+  wordsAdded: z.number(),
+  wordsRemoved: z.number(),
+  sections: z.array(sectionDiffSchema),
+});
+
+export type ScriptDiff = z.infer<typeof scriptDiffSchema>;
+
+// Structured script document parsed from iteration content (see shared/script-document.ts)
+export const directionKinds = ['b_roll', 'camera', 'sfx', 'music', 'general'] as const;
+
+export const scriptElementSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('line'), text: z.string(), speaker: z.string().optional() }),
+  z.object({ type: z.literal('direction'), kind: z.enum(directionKinds), text: z.string() }),
+  z.object({ type: z.literal('on_screen_text'), text: z.string() }),
+  z.object({ type: z.literal('talent_note'), text: z.string() }),
+]);
+
+export type ScriptElement = z.infer<typeof scriptElementSchema>;
+export type DirectionKind = typeof directionKinds[number];
+
+export const scriptDocumentSectionSchema = z.object({
+  title: z.string(), // empty for text before the first header
+  start: z.number().optional(), // seconds
+  end: z.number().optional(),
+  elements: z.array(scriptElementSchema),
+});
+
+export type ScriptDocumentSection = z.infer<typeof scriptDocumentSectionSchema>;
+
+export const scriptDocumentSchema = z.object({
+  version: z.literal(1),
+  sections: z.array(scriptDocumentSectionSchema),
+});
+
+export type ScriptDocument = z.infer<typeof scriptDocumentSchema>;
@@ -0,0 +1,201 @@
+import type {
+  DirectionKind,
+  ScriptDocument,
+  ScriptDocumentSection,
+  ScriptElement,
+  ScriptIteration,
+} from "./schema";
+
+// Parser and serializer between script text and the structured ScriptDocument.
+// The serializer writes the canonical format below; the parser also accepts the
+// common variations models produce (bold or all-caps headers, [0:00 - 1:00]
+// timestamps, parenthesised directions, "HOST:" speaker labels).
+
+// Described to the model so its output parses without guessing
+export const SCRIPT_FORMAT_GUIDE = [
+  "Format the script exactly like this:",
+  "- Start each section with a header line: ## SECTION TITLE (m:ss-m:ss)",
+  "- Put each spoken line on its own line, optionally prefixed with the speaker, e.g. HOST: ...",
+  "- Put each direction on its own line in square brackets with a label:",
+  "  [Speaker note: ...] for delivery notes to the talent",
+  "  [B-roll: ...], [Camera: ...], [SFX: ...] or [Music: ...] for production directions",
+  "  [On-screen text: ...] for text or graphics shown on screen",
+].join("\n");
+
+const TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?`;
+const TIME_RANGE = new RegExp(String.raw`[\[(]?\s*(${TIME})\s*(?:[-–—]|to)\s*(${TIME})\s*[\])]?`);
+const SINGLE_TIME = new RegExp(String.raw`[\[(]\s*(${TIME})\s*[\])]`);
+
+const DIRECTION_LABELS: Record<string, DirectionKind> = {
+  "b-roll": "b_roll",
+  "b roll": "b_roll",
+  "broll": "b_roll",
+  "cutaway": "b_roll",
+  "footage": "b_roll",
+  "visual": "b_roll",
+  "camera": "camera",
+  "shot": "camera",
+  "sfx": "sfx",
+  "sound": "sfx",
+  "sound effect": "sfx",
+  "music": "music",
+};
+
+const ON_SCREEN_LABELS = ["on-screen text", "on screen text", "onscreen text", "text", "graphic", "title card", "lower third", "caption"];
+const TALENT_LABELS = ["speaker note", "talent note", "host note", "note", "delivery", "tone"];
+
+// Canonical labels written by the serializer
+const DIRECTION_PREFIXES: Record<DirectionKind, string> = {
+  b_roll: "B-roll: ",
+  camera: "Camera: ",
+  sfx: "SFX: ",
+  music: "Music: ",
+  general: "",
+};
+
+export function parseTimestamp(value: string): number {
+  return value.split(":").reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(Math.floor(seconds % 60)).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+interface ParsedHeader {
+  title: string;
+  start?: number;
+  end?: number;
+}
+
+function parseHeader(line: string): ParsedHeader | undefined {
+  let text: string | undefined;
+
+  const markdown = line.match(/^#{1,6}\s+(.+)$/);
+  const bold = line.match(/^\*\*([^*]+)\*\*:?$/);
+  if (markdown) {
+    text = markdown[1].replace(/\*\*/g, "");
+  } else if (bold) {
+    text = bold[1];
+  } else if (/^[A-Z][A-Z0-9 &'\/,.:-]{2,}$/.test(line.replace(TIME_RANGE, "").replace(SINGLE_TIME, "").trim())) {
+    text = line;
+  }
+  if (text === undefined) return undefined;
+
+  const header: ParsedHeader = { title: "" };
+  const range = text.match(TIME_RANGE);
+  const single = range ? null : text.match(SINGLE_TIME);
+  if (range) {
+    header.start = parseTimestamp(range[1]);
+    header.end = parseTimestamp(range[2]);
+    text = text.replace(TIME_RANGE, " ");
+  } else if (single) {
+    header.start = parseTimestamp(single[1]);
+    text = text.replace(SINGLE_TIME, " ");
+  }
+
+  header.title = text.replace(/\s+/g, " ").replace(/^[\s:–—-]+|[\s:–—-]+$/g, "").trim();
+  return header;
+}
+
+// A whole-line [bracketed] or (parenthesised) note, optionally in italics
+function parseBracketed(line: string): ScriptElement | undefined {
+  const match = line.match(/^\*?\[(.+)\]\*?$/) ?? line.match(/^\*?\((.+)\)\*?$/);
+  if (!match) return undefined;
+
+  const inner = match[1].trim();
+  const labelled = inner.match(/^([A-Za-z][A-Za-z -]{0,20}?)\s*:\s*(.+)$/);
+  if (labelled) {
+    const label = labelled[1].toLowerCase();
+    const text = labelled[2].trim();
+
+    if (label in DIRECTION_LABELS) return { type: "direction", kind: DIRECTION_LABELS[label], text };
+    if (ON_SCREEN_LABELS.includes(label)) return { type: "on_screen_text", text };
+    if (TALENT_LABELS.includes(label)) return { type: "talent_note", text };
+  }
+
+  return { type: "direction", kind: "general", text: inner };
+}
+
+function parseLine(line: string): ScriptElement {
+  const bracketed = parseBracketed(line);
+  if (bracketed) return bracketed;
+
+  const speaker = line.match(/^([A-Z][A-Z0-9 .'-]{0,30}):\s+(.+)$/) ?? line.match(/^\*\*([^*:]{1,30}):?\*\*:?\s+(.+)$/);
+  if (speaker) return { type: "line", speaker: speaker[1].trim(), text: speaker[2].trim() };
+
+  return { type: "line", text: line };
+}
+
+export function parseScript(content: string): ScriptDocument {
+  const sections: ScriptDocumentSection[] = [];
+  let current: ScriptDocumentSection | undefined;
+
+  for (const raw of content.split("\n")) {
+    const line = raw.trim();
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) continue;
+
+    const header = parseHeader(line);
+    if (header) {
+      current = { ...header, elements: [] };
+      sections.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { title: "", elements: [] };
+      sections.push(current);
+    }
+    current.elements.push(parseLine(line));
+  }
+
+  return { version: 1, sections };
+}
+
+export function serializeElement(element: ScriptElement): string {
+  switch (element.type) {
+    case "line":
+      return element.speaker ? `${element.speaker}: ${element.text}` : element.text;
+    case "direction":
+      return `[${DIRECTION_PREFIXES[element.kind]}${element.text}]`;
+    case "on_screen_text":
+      return `[On-screen text: ${element.text}]`;
+    case "talent_note":
+      return `[Speaker note: ${element.text}]`;
+  }
+}
+
+export function formatTimeRange(section: Pick<ScriptDocumentSection, "start" | "end">): string {
+  if (section.start === undefined) return "";
+  return section.end === undefined
+    ? formatTimestamp(section.start)
+    : `${formatTimestamp(section.start)}-${formatTimestamp(section.end)}`;
+}
+
+export function serializeSection(section: ScriptDocumentSection): string {
+  const lines = section.elements.map(serializeElement);
+  if (section.title) {
+    const range = formatTimeRange(section);
+    lines.unshift(`## ${section.title}${range ? ` (${range})` : ""}`);
+  }
+  return lines.join("\n");
+}
+
+export function serializeScript(document: ScriptDocument): string {
+  return document.sections.map(serializeSection).join("\n\n");
+}
+
+// The words the talent actually says in a section
+export function spokenLines(section: ScriptDocumentSection): string[] {
+  return section.elements
+    .filter((element): element is Extract<ScriptElement, { type: "line" }> => element.type === "line")
+    .map(element => element.text);
+}
+
+// The stored document for an iteration, parsing the content for iterations
+// saved before documents were stored alongside it
+export function iterationDocument(iteration: Pick<ScriptIteration, "content" | "document">): ScriptDocument {
+  return (iteration.document as ScriptDocument | null) ?? parseScript(iteration.content);
+}
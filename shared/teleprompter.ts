@@ -0,0 +1,70 @@
+import type { ScriptDocument } from "./schema";
+import { formatTimestamp } from "./script-document";
+
+// Teleprompter cues: only the words the talent reads, with directions, notes
+// and speaker labels stripped, plus the pace the text should scroll at.
+
+// Delivery pace assumed when a script has no timed sections
+export const DEFAULT_WORDS_PER_MINUTE = 150;
+export const MIN_WORDS_PER_MINUTE = 60;
+export const MAX_WORDS_PER_MINUTE = 260;
+
+export interface TeleprompterSection {
+  title: string;
+  lines: string[];
+}
+
+function countWords(text: string): number {
+  return text.match(/[A-Za-z0-9']+/g)?.length ?? 0;
+}
+
+// With talentCues, **bold** words are capitalised and [pause]/[emphasis]
+// markers kept as cues; otherwise all markup is removed.
+export function cueText(text: string, talentCues = false): string {
+  const cued = talentCues
+    ? text
+      .replace(/\*\*(.+?)\*\*/g, (_, bold: string) => bold.toUpperCase())
+      .replace(/\[(pause|emphasis)\]/gi, (_, cue: string) => `[${cue.toUpperCase()}]`)
+    : text.replace(/\*\*(.+?)\*\*/g, "$1").replace(/\[(pause|emphasis)\]/gi, " ");
+  return cued.replace(/\*(.+?)\*/g, "$1").replace(/\s+/g, " ").trim();
+}
+
+export function teleprompterSections(document: ScriptDocument, talentCues = false): TeleprompterSection[] {
+  return document.sections
+    .map(section => ({
+      title: section.title,
+      lines: section.elements
+        .flatMap(element => element.type === "line" ? [cueText(element.text, talentCues)] : [])
+        .filter(Boolean),
+    }))
+    .filter(section => section.lines.length > 0);
+}
+
+export function teleprompterWordCount(sections: TeleprompterSection[]): number {
+  return sections.reduce((total, section) =>
+    total + section.lines.reduce((sum, line) => sum + countWords(line), 0), 0);
+}
+
+// The pace implied by the script's own section timestamps, falling back to a
+// typical delivery pace when too little of it is timed or the timing is not
+// a plausible reading pace
+export function estimateWordsPerMinute(document: ScriptDocument): number {
+  let words = 0;
+  let seconds = 0;
+  for (const section of document.sections) {
+    if (section.start === undefined || section.end === undefined || section.end <= section.start) continue;
+    words += teleprompterWordCount(teleprompterSections({ ...document, sections: [section] }));
+    seconds += section.end - section.start;
+  }
+
+  if (words < 20 || seconds === 0) return DEFAULT_WORDS_PER_MINUTE;
+  const pace = Math.round(words / seconds * 60);
+  return pace >= MIN_WORDS_PER_MINUTE && pace <= MAX_WORDS_PER_MINUTE ? pace : DEFAULT_WORDS_PER_MINUTE;
+}
+
+// Human-readable scroll speed, e.g. "150 words per minute (2.5 words per second), about 3:20 to read"
+export function scrollSpeedHint(wordsPerMinute: number, wordCount: number): string {
+  const perSecond = (wordsPerMinute / 60).toFixed(1);
+  const duration = formatTimestamp(Math.round(wordCount / wordsPerMinute * 60));
+  return `${wordsPerMinute} words per minute (${perSecond} words per second), about ${duration} to read`;
+}